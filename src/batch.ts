@@ -0,0 +1,247 @@
+/**
+ * Batch API support.
+ *
+ * Bulk requests are written as a JSONL input file of the same bodies
+ * `execute` would send, uploaded through the Files API and submitted as a
+ * batch. Completed batches are read back from their output and error files
+ * and mapped to `ProviderResponse`s by `custom_id`.
+ */
+
+import type OpenAI from 'openai';
+import type { ExecutionOptions, ProviderResponse, Request } from './index.js';
+import { BatchFailedError, toProviderError } from './errors.js';
+import { toRequestOptions } from './pool.js';
+import { sleep, withRetry, type RetryPolicy } from './retry.js';
+
+export type BatchEndpoint = '/v1/chat/completions' | '/v1/responses';
+
+export type BatchStatus =
+    | 'validating'
+    | 'failed'
+    | 'in_progress'
+    | 'finalizing'
+    | 'completed'
+    | 'expired'
+    | 'cancelling'
+    | 'cancelled';
+
+/**
+ * A request with the `custom_id` its result is reported under. Plain
+ * requests get `request-<index>`.
+ */
+export interface BatchItem {
+    customId: string;
+    request: Request;
+}
+
+export interface BatchOptions extends ExecutionOptions {
+    /** Metadata attached to the batch; unlike `ExecutionOptions.metadata`, not sent with each request */
+    metadata?: Record<string, string>;
+    /** First wait between status polls in milliseconds. Defaults to 10s. */
+    pollIntervalMs?: number;
+    /** Longest wait between status polls; the wait grows by half each poll. Defaults to 60s. */
+    maxPollIntervalMs?: number;
+    /** Called with the batch after every status poll */
+    onProgress?: (batch: BatchJob) => void;
+}
+
+export interface BatchJob {
+    id: string;
+    status: BatchStatus;
+    endpoint: string;
+    inputFileId: string;
+    outputFileId?: string;
+    errorFileId?: string;
+    requestCounts: { total: number; completed: number; failed: number };
+    /** Unix time in seconds */
+    createdAt: number;
+    metadata?: Record<string, string>;
+}
+
+export interface BatchItemResult {
+    customId: string;
+    /** Set when the request succeeded */
+    response?: ProviderResponse;
+    /** Typed provider error for a failed request */
+    error?: Error;
+}
+
+export interface BatchResult {
+    batch: BatchJob;
+    /**
+     * One entry per request that finished. Expired or cancelled batches
+     * may be missing some.
+     */
+    results: BatchItemResult[];
+}
+
+/** One line of the JSONL input file */
+export interface BatchLine {
+    custom_id: string;
+    method: 'POST';
+    url: BatchEndpoint;
+    body: object;
+}
+
+interface BatchOutputLine {
+    custom_id: string;
+    response: { status_code: number; request_id?: string; body: any } | null;
+    error: { code?: string; message?: string } | null;
+}
+
+/** Batch requests are billed at half the synchronous price */
+export const BATCH_PRICE_MULTIPLIER = 0.5;
+
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 60_000;
+const TERMINAL_STATUSES = new Set<BatchStatus>(['completed', 'failed', 'expired', 'cancelled']);
+
+/**
+ * Give every input a `custom_id`, checking they are unique.
+ */
+export function toBatchItems(inputs: Array<Request | BatchItem>): BatchItem[] {
+    const items = inputs.map((input, index) =>
+        'request' in input ? input : { customId: `request-${index}`, request: input }
+    );
+    const seen = new Set<string>();
+    for (const { customId } of items) {
+        if (seen.has(customId)) {
+            throw new Error(`Duplicate batch customId "${customId}"`);
+        }
+        seen.add(customId);
+    }
+    return items;
+}
+
+export function toBatchJsonl(lines: BatchLine[]): string {
+    return lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+function mapBatch(batch: OpenAI.Batches.Batch): BatchJob {
+    return {
+        id: batch.id,
+        status: batch.status,
+        endpoint: batch.endpoint,
+        inputFileId: batch.input_file_id,
+        ...(batch.output_file_id ? { outputFileId: batch.output_file_id } : {}),
+        ...(batch.error_file_id ? { errorFileId: batch.error_file_id } : {}),
+        requestCounts: batch.request_counts ?? { total: 0, completed: 0, failed: 0 },
+        createdAt: batch.created_at,
+        ...(batch.metadata ? { metadata: batch.metadata as Record<string, string> } : {}),
+    };
+}
+
+/**
+ * Upload the input file and create the batch.
+ */
+export async function createBatch(
+    client: OpenAI,
+    lines: BatchLine[],
+    endpoint: BatchEndpoint,
+    options: BatchOptions,
+    policy: RetryPolicy
+): Promise<BatchJob> {
+    const file = new File([toBatchJsonl(lines)], 'batch.jsonl', { type: 'application/jsonl' });
+    const upload = await withRetry(
+        () => client.files.create({ file, purpose: 'batch' }, toRequestOptions(options)),
+        policy,
+        options.signal
+    );
+    const batch = await withRetry(
+        () => client.batches.create(
+            {
+                input_file_id: upload.id,
+                endpoint,
+                completion_window: '24h',
+                ...(options.metadata ? { metadata: options.metadata } : {}),
+            },
+            toRequestOptions(options)
+        ),
+        policy,
+        options.signal
+    );
+    return mapBatch(batch);
+}
+
+/**
+ * Poll a batch until it reaches a terminal status, waiting longer after
+ * each poll. Throws `BatchFailedError` if the batch failed validation.
+ */
+export async function pollBatch(
+    client: OpenAI,
+    batchId: string,
+    options: BatchOptions,
+    policy: RetryPolicy
+): Promise<BatchJob> {
+    const maxInterval = options.maxPollIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS;
+    let interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    for (;;) {
+        const batch = await withRetry(
+            () => client.batches.retrieve(batchId, toRequestOptions(options)),
+            policy,
+            options.signal
+        );
+        const job = mapBatch(batch);
+        options.onProgress?.(job);
+        if (job.status === 'failed') {
+            throw new BatchFailedError(job.id, (batch.errors?.data ?? []).map((e) => e.message ?? e.code ?? 'unknown error'));
+        }
+        if (TERMINAL_STATUSES.has(job.status)) {
+            return job;
+        }
+        await sleep(interval, options.signal);
+        interval = Math.min(interval * 1.5, maxInterval);
+    }
+}
+
+async function readJsonl(client: OpenAI, fileId: string, options: BatchOptions, policy: RetryPolicy) {
+    const response = await withRetry(
+        () => client.files.content(fileId, toRequestOptions(options)),
+        policy,
+        options.signal
+    );
+    return (await response.text())
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as BatchOutputLine);
+}
+
+function toItemResult(line: BatchOutputLine, mapBody: (body: any) => ProviderResponse): BatchItemResult {
+    const { response } = line;
+    if (response && response.status_code < 400) {
+        return { customId: line.custom_id, response: mapBody(response.body) };
+    }
+    const apiError = response?.body?.error ?? line.error ?? {};
+    return {
+        customId: line.custom_id,
+        error: toProviderError({
+            status: response?.status_code,
+            message: apiError.message ?? 'Batch request failed',
+            code: apiError.code,
+            type: apiError.type,
+            param: apiError.param,
+            requestID: response?.request_id,
+        }),
+    };
+}
+
+/**
+ * Read a finished batch's output and error files.
+ */
+export async function readBatchResults(
+    client: OpenAI,
+    batch: BatchJob,
+    mapBody: (body: any) => ProviderResponse,
+    options: BatchOptions,
+    policy: RetryPolicy
+): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+    for (const fileId of [batch.outputFileId, batch.errorFileId]) {
+        if (fileId) {
+            for (const line of await readJsonl(client, fileId, options, policy)) {
+                results.push(toItemResult(line, mapBody));
+            }
+        }
+    }
+    return results;
+}
@@ -0,0 +1,130 @@
+/**
+ * Response caching.
+ *
+ * An opt-in cache in front of `execute` and `executeStream`, keyed by a
+ * canonical hash of the request params sent to the API. Stores are
+ * pluggable; in-memory LRU and filesystem stores are included.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ProviderResponse } from './index.js';
+import { hashRequestBody } from './cassette.js';
+
+/**
+ * Storage backend for cached responses. Methods may be sync or async, so a
+ * Redis or database client can be wrapped directly. Expired entries must
+ * not be returned.
+ */
+export interface CacheStore {
+    get(key: string): ProviderResponse | undefined | Promise<ProviderResponse | undefined>;
+    /** `ttlMs` is undefined for entries that never expire */
+    set(key: string, value: ProviderResponse, ttlMs?: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+    store: CacheStore;
+    /** Time to live in milliseconds. Entries never expire by default. */
+    ttlMs?: number;
+}
+
+interface StoredEntry {
+    value: ProviderResponse;
+    expiresAt?: number;
+}
+
+function isExpired(entry: StoredEntry, now = Date.now()): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * Cache key for a request: a hash of everything that determines the reply.
+ */
+export function responseCacheKey(parts: { api: string; baseURL?: string; params: unknown }): string {
+    return hashRequestBody(JSON.stringify(parts));
+}
+
+/**
+ * In-memory store that evicts the least recently used entry once
+ * `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private readonly entries = new Map<string, StoredEntry>();
+    private readonly maxEntries: number;
+
+    constructor(options: { maxEntries?: number } = {}) {
+        this.maxEntries = options.maxEntries ?? 1000;
+    }
+
+    /** Number of stored entries, including expired ones not yet evicted */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): ProviderResponse | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (isExpired(entry)) {
+            return undefined;
+        }
+        // Re-insert to mark as most recently used
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: ProviderResponse, ttlMs?: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, ...(ttlMs !== undefined ? { expiresAt: Date.now() + ttlMs } : {}) });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Store that keeps one JSON file per entry in `directory`. Survives process
+ * restarts, so CI caches can be persisted between runs.
+ */
+export class FileCacheStore implements CacheStore {
+    constructor(private readonly directory: string) {}
+
+    private path(key: string): string {
+        return join(this.directory, `${key}.json`);
+    }
+
+    async get(key: string): Promise<ProviderResponse | undefined> {
+        let entry: StoredEntry;
+        try {
+            entry = JSON.parse(await readFile(this.path(key), 'utf8')) as StoredEntry;
+        } catch {
+            return undefined;
+        }
+        if (isExpired(entry)) {
+            await this.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: ProviderResponse, ttlMs?: number): Promise<void> {
+        const entry: StoredEntry = { value, ...(ttlMs !== undefined ? { expiresAt: Date.now() + ttlMs } : {}) };
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.path(key), JSON.stringify(entry));
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.path(key), { force: true });
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * Record/replay transport for offline tests.
+ *
+ * `createCassetteFetch` returns a `fetch` for `OpenAIProviderConfig.fetch`.
+ * In record mode it forwards requests to the network and appends each
+ * request/response pair, streamed SSE bodies included, to a JSON cassette
+ * file with secrets redacted. In replay mode it serves the recorded
+ * responses without touching the network, matching requests by method,
+ * path and a hash of the normalized JSON body.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { getRedactor } from '@utilarium/offrecord';
+import { getRequestUrl } from './proxy.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+    /** Cassette file path */
+    path: string;
+    mode: CassetteMode;
+    /** Transport used in record mode. Defaults to the global `fetch`. */
+    fetch?: typeof fetch;
+}
+
+export interface CassetteEntry {
+    request: {
+        method: string;
+        /** URL path, e.g. `/v1/chat/completions` */
+        path: string;
+        bodyHash: string;
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        headers: Record<string, string>;
+        body: string;
+    };
+}
+
+export interface Cassette {
+    version: 1;
+    entries: CassetteEntry[];
+}
+
+// Connection- and account-specific headers that make fixtures noisy
+const DROPPED_RESPONSE_HEADERS = new Set([
+    'set-cookie',
+    'date',
+    'connection',
+    'keep-alive',
+    'transfer-encoding',
+    'content-encoding',
+    'content-length',
+    'openai-organization',
+    'cf-ray',
+]);
+
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value as Record<string, unknown>)
+                .sort()
+                .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+        );
+    }
+    return value;
+}
+
+function parseBody(body: string): unknown {
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+/**
+ * Hash a request body for matching. JSON bodies are hashed with their keys
+ * sorted, so property order does not affect the match.
+ */
+export function hashRequestBody(body: string): string {
+    const normalized = body ? JSON.stringify(sortKeys(parseBody(body))) : '';
+    return createHash('sha256').update(normalized).digest('hex');
+}
+
+function loadCassette(path: string): Cassette {
+    if (!existsSync(path)) {
+        return { version: 1, entries: [] };
+    }
+    return JSON.parse(readFileSync(path, 'utf8')) as Cassette;
+}
+
+async function readRequestBody(input: any, init?: RequestInit): Promise<string> {
+    if (init?.body != null) {
+        return typeof init.body === 'string' ? init.body : await new Response(init.body).text();
+    }
+    return input instanceof Request ? await input.clone().text() : '';
+}
+
+/**
+ * Create a recording or replaying `fetch`.
+ */
+export function createCassetteFetch(options: CassetteOptions): typeof fetch {
+    const redactor = getRedactor();
+    const cassette = loadCassette(options.path);
+    // Replay serves identical requests from successive entries
+    const used = new Set<CassetteEntry>();
+
+    async function record(input: any, init: RequestInit | undefined, entry: CassetteEntry['request']) {
+        const response = await (options.fetch ?? fetch)(input, init);
+        const body = await response.text();
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+            if (!DROPPED_RESPONSE_HEADERS.has(key.toLowerCase())) {
+                headers[key] = redactor.redact(value);
+            }
+        });
+
+        cassette.entries.push({
+            request: entry,
+            response: { status: response.status, headers, body: redactor.redact(body) },
+        });
+        mkdirSync(dirname(options.path), { recursive: true });
+        writeFileSync(options.path, JSON.stringify(cassette, null, 2) + '\n');
+
+        return new Response(body, { status: response.status, headers: response.headers });
+    }
+
+    function replay(entry: CassetteEntry['request']): Response {
+        const matches = cassette.entries.filter((e) =>
+            e.request.method === entry.method &&
+            e.request.path === entry.path &&
+            e.request.bodyHash === entry.bodyHash
+        );
+        const match = matches.find((e) => !used.has(e)) ?? matches.at(-1);
+        if (!match) {
+            // A 4xx is not retried, so a miss fails fast with a clear message
+            return Response.json(
+                {
+                    error: {
+                        message: `No cassette entry for ${entry.method} ${entry.path} (body hash ${entry.bodyHash})`,
+                        type: 'cassette_error',
+                        code: 'cassette_miss',
+                    },
+                },
+                { status: 404 }
+            );
+        }
+        used.add(match);
+        return new Response(match.response.body, { status: match.response.status, headers: match.response.headers });
+    }
+
+    return (async (input: any, init?: RequestInit) => {
+        const body = await readRequestBody(input, init);
+        const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+        const entry: CassetteEntry['request'] = {
+            method,
+            path: new URL(getRequestUrl(input)).pathname,
+            bodyHash: hashRequestBody(body),
+            ...(body ? { body: parseBody(redactor.redact(body)) } : {}),
+        };
+        return options.mode === 'record' ? record(input, init, entry) : replay(entry);
+    }) as typeof fetch;
+}
@@ -0,0 +1,208 @@
+/**
+ * Multimodal message content.
+ *
+ * `Message.content` may be an array mixing plain strings and typed parts
+ * (text, image, audio, file). Parts are mapped onto Chat Completions content
+ * parts, and checked against what the target model can accept before the
+ * request is sent.
+ */
+
+import type OpenAI from 'openai';
+import { UnsupportedContentError } from './errors.js';
+import { getModelCapabilities } from './models.js';
+import type { Message } from './index.js';
+
+export interface TextContentPart {
+    type: 'text';
+    text: string;
+}
+
+/**
+ * An image, given either as a URL or as raw bytes / base64 data.
+ */
+export interface ImageContentPart {
+    type: 'image';
+    /** Remote URL or data: URL */
+    url?: string;
+    /** Base64 string or raw bytes (e.g. a Buffer) */
+    data?: string | Uint8Array;
+    /** MIME type used when building a data URL from `data`. Defaults to image/png. */
+    mimeType?: string;
+    detail?: 'auto' | 'low' | 'high';
+}
+
+export interface AudioContentPart {
+    type: 'audio';
+    /** Base64 string or raw bytes */
+    data: string | Uint8Array;
+    format: 'wav' | 'mp3';
+}
+
+/**
+ * A document (e.g. PDF), given either as an uploaded file ID or inline data.
+ */
+export interface FileContentPart {
+    type: 'file';
+    fileId?: string;
+    /** Base64 string or raw bytes */
+    data?: string | Uint8Array;
+    filename?: string;
+    /** MIME type used when building a data URL from `data`. Defaults to application/pdf. */
+    mimeType?: string;
+}
+
+export type ContentPart = TextContentPart | ImageContentPart | AudioContentPart | FileContentPart;
+
+export type ContentPartType = ContentPart['type'];
+
+function toBase64(data: string | Uint8Array): string {
+    return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
+
+function toDataUrl(data: string | Uint8Array, mimeType: string): string {
+    if (typeof data === 'string' && data.startsWith('data:')) {
+        return data;
+    }
+    return `data:${mimeType};base64,${toBase64(data)}`;
+}
+
+/**
+ * Input part types a model accepts, or undefined when the model is unknown.
+ */
+export function getSupportedContentTypes(model: string): ContentPartType[] | undefined {
+    const capabilities = getModelCapabilities(model);
+    if (!capabilities) {
+        return undefined;
+    }
+    return [
+        'text',
+        ...(capabilities.vision ? ['image' as const] : []),
+        ...(capabilities.audio ? ['audio' as const] : []),
+        ...(capabilities.files ? ['file' as const] : []),
+    ];
+}
+
+function normalizeParts(content: Array<string | ContentPart>): ContentPart[] {
+    return content.map((part) => (typeof part === 'string' ? { type: 'text', text: part } : part));
+}
+
+/**
+ * Convert a content part into its Chat Completions form.
+ */
+export function mapContentPartToOpenAI(part: ContentPart): OpenAI.ChatCompletionContentPart {
+    switch (part.type) {
+        case 'text':
+            return { type: 'text', text: part.text };
+        case 'image': {
+            const url = part.url ?? (part.data != null ? toDataUrl(part.data, part.mimeType ?? 'image/png') : undefined);
+            if (!url) {
+                throw new UnsupportedContentError('Image content part requires a url or data');
+            }
+            return {
+                type: 'image_url',
+                image_url: { url, ...(part.detail ? { detail: part.detail } : {}) },
+            };
+        }
+        case 'audio':
+            return {
+                type: 'input_audio',
+                input_audio: { data: toBase64(part.data), format: part.format },
+            };
+        case 'file':
+            if (!part.fileId && part.data == null) {
+                throw new UnsupportedContentError('File content part requires a fileId or data');
+            }
+            return {
+                type: 'file',
+                file: {
+                    ...(part.fileId ? { file_id: part.fileId } : {}),
+                    ...(part.data != null
+                        ? { file_data: toDataUrl(part.data, part.mimeType ?? 'application/pdf') }
+                        : {}),
+                    ...(part.filename ? { filename: part.filename } : {}),
+                },
+            };
+    }
+}
+
+/**
+ * Convert a content part into its Responses API input form. Audio input is
+ * not accepted by the Responses API.
+ */
+export function mapContentPartToResponses(part: ContentPart): OpenAI.Responses.ResponseInputContent {
+    const mapped = mapContentPartToOpenAI(part);
+    switch (mapped.type) {
+        case 'text':
+            return { type: 'input_text', text: mapped.text };
+        case 'image_url':
+            return { type: 'input_image', image_url: mapped.image_url.url, detail: mapped.image_url.detail ?? 'auto' };
+        case 'file':
+            return { type: 'input_file', ...mapped.file };
+        case 'input_audio':
+            throw new UnsupportedContentError('Audio content is not supported by the Responses API', {
+                partType: 'audio',
+            });
+    }
+}
+
+/**
+ * Convert message content into Responses API input content: strings pass
+ * through, arrays become input parts.
+ */
+export function mapContentToResponses(
+    content: Message['content']
+): string | OpenAI.Responses.ResponseInputContent[] {
+    if (content == null) {
+        return '';
+    }
+    if (typeof content === 'string') {
+        return content;
+    }
+    return normalizeParts(content).map(mapContentPartToResponses);
+}
+
+/**
+ * Convert message content into Chat Completions content: strings pass
+ * through, arrays become content parts.
+ */
+export function mapContentToOpenAI(
+    content: Message['content']
+): string | OpenAI.ChatCompletionContentPart[] {
+    if (content == null) {
+        return '';
+    }
+    if (typeof content === 'string') {
+        return content;
+    }
+    return normalizeParts(content).map(mapContentPartToOpenAI);
+}
+
+/**
+ * Reject content the model or role can't accept: non-text parts are only
+ * allowed on user messages, and only for models that support them.
+ */
+export function assertContentSupported(model: string, messages: Message[]): void {
+    const supported = getSupportedContentTypes(model);
+    for (const message of messages) {
+        if (!Array.isArray(message.content)) {
+            continue;
+        }
+        for (const part of normalizeParts(message.content)) {
+            if (part.type === 'text') {
+                continue;
+            }
+            if (message.role !== 'user') {
+                throw new UnsupportedContentError(
+                    `${part.type} content is only supported on user messages, not ${message.role}`,
+                    { model, partType: part.type }
+                );
+            }
+            if (supported && !supported.includes(part.type)) {
+                throw new UnsupportedContentError(
+                    `Model ${model} does not accept ${part.type} input`,
+                    { model, partType: part.type }
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * Cost estimation and spend tracking.
+ *
+ * Prices are USD per million tokens and are estimates: they follow the
+ * public price list at the time of writing and are not fetched from the
+ * API. Override them through `OpenAIProviderConfig.pricing`, which is also
+ * the only source of prices for fine-tuned `ft:` models.
+ */
+
+import type { Usage } from './index.js';
+import { BudgetExceededError } from './errors.js';
+import { baseModelName } from './models.js';
+
+/**
+ * Prices in USD per million tokens. `cachedInput` defaults to `input` and
+ * `reasoning` to `output`.
+ */
+export interface ModelPricing {
+    input: number;
+    cachedInput?: number;
+    output: number;
+    reasoning?: number;
+}
+
+/**
+ * First match wins. Premium variants are listed before their family so
+ * they aren't billed at its cheaper rates; an undefined price means
+ * unknown, never a fallback to the family.
+ */
+const PRICING_BY_MODEL: Array<[RegExp, ModelPricing | undefined]> = [
+    [/^gpt-5-pro/, { input: 15, output: 120 }],
+    [/^o3-pro/, { input: 20, output: 80 }],
+    [/^o1-pro/, { input: 150, output: 600 }],
+    [/^o3-deep-research/, { input: 10, cachedInput: 2.5, output: 40 }],
+    [/^o4-mini-deep-research/, { input: 2, cachedInput: 0.5, output: 8 }],
+    // Other premium variants (e.g. newer `-pro` models) have no known price
+    [/-(pro|deep-research)(-|$)/, undefined],
+    [/^gpt-5(\.\d+)?-nano/, { input: 0.05, cachedInput: 0.005, output: 0.4 }],
+    [/^gpt-5(\.\d+)?-mini/, { input: 0.25, cachedInput: 0.025, output: 2 }],
+    [/^gpt-5/, { input: 1.25, cachedInput: 0.125, output: 10 }],
+    [/^gpt-4\.1-nano/, { input: 0.1, cachedInput: 0.025, output: 0.4 }],
+    [/^gpt-4\.1-mini/, { input: 0.4, cachedInput: 0.1, output: 1.6 }],
+    [/^gpt-4\.1/, { input: 2, cachedInput: 0.5, output: 8 }],
+    [/^gpt-4\.5/, { input: 75, cachedInput: 37.5, output: 150 }],
+    [/^gpt-4o-mini/, { input: 0.15, cachedInput: 0.075, output: 0.6 }],
+    [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, cachedInput: 1.25, output: 10 }],
+    [/^gpt-4-(turbo|1106|0125)/, { input: 10, output: 30 }],
+    [/^gpt-4/, { input: 30, output: 60 }],
+    [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+    [/^o4-mini/, { input: 1.1, cachedInput: 0.275, output: 4.4 }],
+    [/^o3-mini/, { input: 1.1, cachedInput: 0.55, output: 4.4 }],
+    [/^o3/, { input: 2, cachedInput: 0.5, output: 8 }],
+    [/^o1-mini/, { input: 1.1, cachedInput: 0.55, output: 4.4 }],
+    [/^o1/, { input: 15, cachedInput: 7.5, output: 60 }],
+    [/^text-embedding-3-small/, { input: 0.02, output: 0 }],
+    [/^text-embedding-3-large/, { input: 0.13, output: 0 }],
+    [/^text-embedding-ada-002/, { input: 0.1, output: 0 }],
+];
+
+/**
+ * Prices for a model. Overrides are matched on the exact model ID first,
+ * then on the base model name. Fine-tuned models are billed at their own
+ * rates, so they have no built-in price and return undefined unless
+ * overridden.
+ */
+export function getModelPricing(
+    model: string,
+    overrides?: Record<string, ModelPricing>
+): ModelPricing | undefined {
+    const base = baseModelName(model);
+    const override = overrides?.[model] ?? overrides?.[base];
+    if (override) {
+        return override;
+    }
+    if (model.trim().toLowerCase().startsWith('ft:')) {
+        return undefined;
+    }
+    return PRICING_BY_MODEL.find(([pattern]) => pattern.test(base))?.[1];
+}
+
+/**
+ * Estimated USD cost of a call. Cached input and reasoning tokens are
+ * billed at their own rates and the rest of input and output at the base
+ * rates. Returns undefined for models without a known price.
+ */
+export function estimateCost(
+    usage: Usage,
+    model: string,
+    overrides?: Record<string, ModelPricing>
+): number | undefined {
+    const pricing = getModelPricing(model, overrides);
+    if (!pricing) {
+        return undefined;
+    }
+    const cached = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+    const reasoning = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens);
+    const micros =
+        (usage.inputTokens - cached) * pricing.input +
+        cached * (pricing.cachedInput ?? pricing.input) +
+        (usage.outputTokens - reasoning) * pricing.output +
+        reasoning * (pricing.reasoning ?? pricing.output);
+    return micros / 1_000_000;
+}
+
+/**
+ * Cumulative spend across calls, with an optional budget. Share one
+ * tracker between providers or calls to cap their combined spend: once
+ * the recorded total reaches the budget, further calls throw
+ * `BudgetExceededError` before any request is sent.
+ */
+export class SpendTracker {
+    readonly budget?: number;
+    private total = 0;
+    private calls = 0;
+
+    constructor(options: { budget?: number } = {}) {
+        this.budget = options.budget;
+    }
+
+    /** Total estimated spend in USD */
+    get spent(): number {
+        return this.total;
+    }
+
+    /** Number of calls recorded */
+    get callCount(): number {
+        return this.calls;
+    }
+
+    /** Budget left in USD, or undefined when there is no budget */
+    get remaining(): number | undefined {
+        return this.budget === undefined ? undefined : Math.max(0, this.budget - this.total);
+    }
+
+    record(cost: number): void {
+        this.total += cost;
+        this.calls++;
+    }
+
+    /**
+     * Throw `BudgetExceededError` if the budget has been used up.
+     */
+    assertWithinBudget(): void {
+        if (this.budget !== undefined && this.total >= this.budget) {
+            throw new BudgetExceededError(this.total, this.budget);
+        }
+    }
+
+    reset(): void {
+        this.total = 0;
+        this.calls = 0;
+    }
+}
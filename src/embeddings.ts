@@ -0,0 +1,94 @@
+/**
+ * Embeddings.
+ *
+ * Inputs are split into requests that stay under the endpoint's per-request
+ * item and token limits, counted with tiktoken, and the vectors are
+ * reassembled in input order.
+ */
+
+import type { ExecutionOptions, Usage } from './index.js';
+import { ContextLengthExceededError } from './errors.js';
+import { countTokens } from './tokens.js';
+
+export type EmbeddingEncodingFormat = 'float' | 'base64';
+
+export interface EmbedOptions extends ExecutionOptions {
+    /** Defaults to `text-embedding-3-small` */
+    model?: string;
+    /** Output dimensions; `text-embedding-3` models only */
+    dimensions?: number;
+    /**
+     * `base64` transfers packed float32 vectors and returns them as
+     * `Float32Array`s. Defaults to `float`, which returns `number[]`s.
+     */
+    encodingFormat?: EmbeddingEncodingFormat;
+    /** Inputs per request. Defaults to the API limit of 2048. */
+    maxBatchItems?: number;
+    /** Tokens per request, summed over inputs. Defaults to the API limit of 300,000. */
+    maxBatchTokens?: number;
+}
+
+export interface EmbeddingResponse<TVector = number[]> {
+    /** One vector per input, in input order */
+    embeddings: TVector[];
+    model: string;
+    /** `inputTokens` summed over all requests; `outputTokens` is 0 */
+    usage: Usage;
+    /** Estimated USD cost */
+    cost?: number;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+const MAX_BATCH_ITEMS = 2048;
+const MAX_BATCH_TOKENS = 300_000;
+/** Longest single input accepted by the embedding models */
+const MAX_INPUT_TOKENS = 8192;
+
+/**
+ * Group inputs into request-sized batches, preserving order. Throws
+ * `ContextLengthExceededError` for an input that is too long on its own.
+ */
+export function batchEmbeddingInputs(
+    inputs: string[],
+    model: string,
+    limits: { maxBatchItems?: number; maxBatchTokens?: number } = {}
+): string[][] {
+    const maxItems = limits.maxBatchItems ?? MAX_BATCH_ITEMS;
+    const maxTokens = limits.maxBatchTokens ?? MAX_BATCH_TOKENS;
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const input of inputs) {
+        const tokens = countTokens(input, model);
+        if (tokens > MAX_INPUT_TOKENS) {
+            throw new ContextLengthExceededError({
+                model,
+                promptTokens: tokens,
+                contextWindow: MAX_INPUT_TOKENS,
+                message: `Embedding input of ${tokens} tokens exceeds the ${MAX_INPUT_TOKENS}-token limit of ${model}`,
+            });
+        }
+        if (current.length && (current.length >= maxItems || currentTokens + tokens > maxTokens)) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(input);
+        currentTokens += tokens;
+    }
+    if (current.length) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+/**
+ * Decode a base64 embedding (little-endian float32) into a `Float32Array`.
+ */
+export function decodeEmbedding(base64: string): Float32Array {
+    const bytes = Buffer.from(base64, 'base64');
+    // Copy into an aligned buffer; Buffer slices may start at any offset
+    return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
@@ -0,0 +1,304 @@
+/**
+ * Error types thrown by the OpenAI provider.
+ */
+
+import { getSecretGuard } from '@utilarium/spotclean';
+import type { Usage } from './index.js';
+import type { ToolRunStep } from './run-tools.js';
+import { getErrorHeader, getServerRetryDelayMs } from './retry.js';
+
+/**
+ * Metadata carried over from an OpenAI API error.
+ */
+export interface OpenAIErrorDetails {
+    /** HTTP status */
+    status?: number;
+    /** API error code, e.g. `rate_limit_exceeded` or `invalid_api_key` */
+    code?: string;
+    /** API error type, e.g. `invalid_request_error` */
+    type?: string;
+    /** Request parameter the error refers to */
+    param?: string;
+    /** `x-request-id` of the failed request, for OpenAI support */
+    requestId?: string;
+    /** Wait requested by the server before retrying */
+    retryAfterMs?: number;
+}
+
+/**
+ * Base class for failures reported by the OpenAI API or the provider's own
+ * request checks. Messages have secrets redacted.
+ */
+export class OpenAIProviderError extends Error {
+    readonly status?: number;
+    readonly code?: string;
+    readonly type?: string;
+    readonly param?: string;
+    readonly requestId?: string;
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message);
+        this.name = 'OpenAIProviderError';
+        this.status = details.status;
+        this.code = details.code;
+        this.type = details.type;
+        this.param = details.param;
+        this.requestId = details.requestId;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * Missing, malformed, revoked or unauthorized API key (401/403).
+ */
+export class AuthenticationError extends OpenAIProviderError {
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message, details);
+        this.name = 'AuthenticationError';
+    }
+}
+
+/**
+ * Rate limit or quota exhausted (429). `code` is `insufficient_quota` when
+ * waiting will not help.
+ */
+export class RateLimitError extends OpenAIProviderError {
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message, details);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * The request or its output was rejected by content moderation.
+ */
+export class ContentFilterError extends OpenAIProviderError {
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message, details);
+        this.name = 'ContentFilterError';
+    }
+}
+
+/**
+ * The request timed out, on the client or the server (408).
+ */
+export class TimeoutError extends OpenAIProviderError {
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message, details);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * OpenAI failed to serve the request (5xx).
+ */
+export class ServerError extends OpenAIProviderError {
+    constructor(message: string, details: OpenAIErrorDetails = {}) {
+        super(message, details);
+        this.name = 'ServerError';
+    }
+}
+
+/**
+ * The prompt plus the requested output budget does not fit in the model's
+ * context window. Thrown before a request is sent, with the token counts,
+ * or when the API rejects a request with `context_length_exceeded`.
+ */
+export class ContextLengthExceededError extends OpenAIProviderError {
+    readonly model?: string;
+    readonly promptTokens?: number;
+    readonly maxTokens?: number;
+    readonly contextWindow?: number;
+
+    constructor(
+        details: { model?: string; promptTokens?: number; maxTokens?: number; contextWindow?: number; message?: string }
+            & OpenAIErrorDetails
+    ) {
+        super(
+            details.message ??
+            `Prompt of ${details.promptTokens} tokens plus ${details.maxTokens} output tokens ` +
+            `exceeds the ${details.contextWindow}-token context window of ${details.model}`,
+            details
+        );
+        this.name = 'ContextLengthExceededError';
+        this.model = details.model;
+        this.promptTokens = details.promptTokens;
+        this.maxTokens = details.maxTokens;
+        this.contextWindow = details.contextWindow;
+    }
+}
+
+/**
+ * Thrown before a request is sent when a message contains content the
+ * target model or message role cannot accept (e.g. an image for a
+ * text-only model).
+ */
+export class UnsupportedContentError extends Error {
+    readonly model?: string;
+    readonly partType?: string;
+
+    constructor(message: string, details: { model?: string; partType?: string } = {}) {
+        super(message);
+        this.name = 'UnsupportedContentError';
+        this.model = details.model;
+        this.partType = details.partType;
+    }
+}
+
+/**
+ * Thrown before a request is sent when it relies on a feature the model
+ * registry says the target model lacks (e.g. tools on `o1-mini`).
+ */
+export class UnsupportedFeatureError extends Error {
+    readonly model: string;
+    readonly feature: string;
+
+    constructor(model: string, feature: string) {
+        super(`Model ${model} does not support ${feature}`);
+        this.name = 'UnsupportedFeatureError';
+        this.model = model;
+        this.feature = feature;
+    }
+}
+
+/**
+ * Thrown when structured output still fails to parse or validate after all
+ * repair round-trips. `content` holds the last raw reply.
+ */
+export class StructuredOutputValidationError extends Error {
+    readonly errors: string[];
+    readonly content: string;
+
+    constructor(errors: string[], content: string) {
+        super(`Structured output failed validation: ${errors.join('; ')}`);
+        this.name = 'StructuredOutputValidationError';
+        this.errors = errors;
+        this.content = content;
+    }
+}
+
+/**
+ * Thrown before a request is sent when a `SpendTracker` has used up its
+ * budget. Amounts are estimated USD.
+ */
+export class BudgetExceededError extends Error {
+    readonly spent: number;
+    readonly budget: number;
+
+    constructor(spent: number, budget: number) {
+        super(`Spend of $${spent.toFixed(4)} has reached the $${budget.toFixed(2)} budget`);
+        this.name = 'BudgetExceededError';
+        this.spent = spent;
+        this.budget = budget;
+    }
+}
+
+/**
+ * Thrown when a call is cancelled through `ExecutionOptions.signal`. For
+ * streams, `text` holds the output received before the abort and `usage`
+ * the reported usage, or an estimate when the stream never reported it.
+ */
+export class AbortError extends Error {
+    readonly text?: string;
+    readonly usage?: Usage;
+
+    constructor(details: { text?: string; usage?: Usage } = {}) {
+        super('Request was aborted');
+        this.name = 'AbortError';
+        this.text = details.text;
+        this.usage = details.usage;
+    }
+}
+
+/**
+ * The Batch API rejected a whole batch, usually because its input file
+ * failed validation. `errors` lists the reasons it reported.
+ */
+export class BatchFailedError extends OpenAIProviderError {
+    readonly batchId: string;
+    readonly errors: string[];
+
+    constructor(batchId: string, errors: string[]) {
+        super(`Batch ${batchId} failed${errors.length ? `: ${errors.join('; ')}` : ''}`);
+        this.name = 'BatchFailedError';
+        this.batchId = batchId;
+        this.errors = errors;
+    }
+}
+
+const CONTENT_FILTER_CODES = new Set(['content_filter', 'content_policy_violation']);
+
+/**
+ * Convert an SDK or network error into the matching `OpenAIProviderError`
+ * subclass, keeping the API metadata and redacting secrets from the
+ * message. Errors already thrown as provider types pass through unchanged.
+ */
+export function toProviderError(error: unknown): Error {
+    if (
+        error instanceof OpenAIProviderError ||
+        error instanceof UnsupportedContentError ||
+        error instanceof UnsupportedFeatureError ||
+        error instanceof StructuredOutputValidationError ||
+        error instanceof BudgetExceededError ||
+        error instanceof AbortError
+    ) {
+        return error;
+    }
+
+    const source = (error ?? {}) as {
+        name?: string;
+        message?: string;
+        status?: number;
+        code?: string | null;
+        type?: string | null;
+        param?: string | null;
+        requestID?: string | null;
+    };
+    const status = typeof source.status === 'number' ? source.status : undefined;
+    const details: OpenAIErrorDetails = {
+        status,
+        code: source.code ?? undefined,
+        type: source.type ?? undefined,
+        param: source.param ?? undefined,
+        requestId: source.requestID ?? getErrorHeader(error, 'x-request-id'),
+        retryAfterMs: getServerRetryDelayMs(error),
+    };
+    const message = getSecretGuard().redact(source.message || String(error));
+
+    if (source.name === 'APIConnectionTimeoutError' || status === 408) {
+        return new TimeoutError(message, details);
+    }
+    if (status === 401 || status === 403 || details.code === 'invalid_api_key') {
+        return new AuthenticationError(message, details);
+    }
+    if (details.code === 'context_length_exceeded') {
+        return new ContextLengthExceededError({ ...details, message });
+    }
+    if (details.code && CONTENT_FILTER_CODES.has(details.code)) {
+        return new ContentFilterError(message, details);
+    }
+    if (status === 429) {
+        return new RateLimitError(message, details);
+    }
+    if (status !== undefined && status >= 500) {
+        return new ServerError(message, details);
+    }
+    return new OpenAIProviderError(message, details);
+}
+
+/**
+ * Thrown by `runTools` when the model still requests tool calls after
+ * `maxIterations` round-trips. `steps` holds the transcript so far.
+ */
+export class ToolIterationLimitError extends Error {
+    readonly maxIterations: number;
+    readonly steps: ToolRunStep[];
+
+    constructor(maxIterations: number, steps: ToolRunStep[]) {
+        super(`Model still requested tool calls after ${maxIterations} iterations`);
+        this.name = 'ToolIterationLimitError';
+        this.maxIterations = maxIterations;
+        this.steps = steps;
+    }
+}
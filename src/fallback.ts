@@ -0,0 +1,253 @@
+/**
+ * Fallback chains and model routing.
+ *
+ * `FallbackProvider` wraps one or more providers and tries an ordered list
+ * of targets (model, endpoint, API key) until one succeeds. Routes pick the
+ * list per request, e.g. long prompts to a large-context model, and failures
+ * worth another target (overload, outages, validation failures) move on to
+ * the next one. It implements `Provider`, so callers of `execute` and
+ * `executeStream` don't change.
+ */
+
+import type { ExecutionOptions, Provider, ProviderResponse, Request, StreamChunk } from './index.js';
+import {
+    AbortError,
+    AuthenticationError,
+    ContextLengthExceededError,
+    OpenAIProviderError,
+    StructuredOutputValidationError,
+    TimeoutError,
+    UnsupportedContentError,
+    UnsupportedFeatureError,
+} from './errors.js';
+import { isRetryableError } from './retry.js';
+import { countMessageTokens } from './tokens.js';
+import { DEFAULT_MODEL } from './models.js';
+
+export interface FallbackTarget {
+    /** Label used in `servedBy` and `onFallback`; defaults to the model and base URL */
+    name?: string;
+    model?: string;
+    baseURL?: string;
+    apiKey?: string;
+    /** Further per-call overrides for this target (`retries`, `api`, `headers`, ...) */
+    options?: ExecutionOptions;
+    /** Provider to call; defaults to `FallbackProviderConfig.provider` */
+    provider?: Provider;
+}
+
+export interface RouteContext {
+    request: Request;
+    options: ExecutionOptions;
+    /** Prompt size for the requested model, counted on first access */
+    readonly promptTokens: number;
+}
+
+export interface FallbackRoute {
+    /** Whether this route serves the request; the first match wins */
+    when(context: RouteContext): boolean;
+    targets: FallbackTarget[];
+}
+
+export interface FallbackFailure {
+    target: string;
+    error: Error;
+}
+
+/** Which target produced a response, and the ones that failed before it */
+export interface ServedBy {
+    target: string;
+    model: string;
+    baseURL?: string;
+    failures: FallbackFailure[];
+}
+
+export interface FallbackProviderConfig {
+    /** Provider that targets without their own are called through */
+    provider: Provider;
+    /** Tried in order when no route matches */
+    targets: FallbackTarget[];
+    routes?: FallbackRoute[];
+    /** Whether a failure moves on to the next target. Defaults to `isFallbackError`. */
+    shouldFallback?: (error: Error, target: FallbackTarget) => boolean;
+    /** Called before moving on; a callback that throws is ignored */
+    onFallback?: (event: { from: string; to: string; error: Error }) => void;
+}
+
+/**
+ * Default fallback condition: anything worth retrying (429, 5xx, timeouts),
+ * failures with no response at all (connection refused, DNS), and
+ * failures another model may not have: validation, context length and
+ * unsupported content or features. Auth, content filter, budget and
+ * cancellation errors are final.
+ */
+export function isFallbackError(error: unknown): boolean {
+    if (error instanceof AbortError || error instanceof AuthenticationError) {
+        return false;
+    }
+    if (
+        error instanceof StructuredOutputValidationError ||
+        error instanceof ContextLengthExceededError ||
+        error instanceof UnsupportedContentError ||
+        error instanceof UnsupportedFeatureError ||
+        error instanceof TimeoutError
+    ) {
+        return true;
+    }
+    // No HTTP status: the request never got a response
+    if (error instanceof OpenAIProviderError && error.status === undefined && !error.code) {
+        return true;
+    }
+    return isRetryableError(error);
+}
+
+/**
+ * Provider that tries an ordered list of targets, chosen per request by
+ * routes, until one succeeds. Responses carry `servedBy`; when every target
+ * fails, the last error is thrown.
+ */
+export class FallbackProvider implements Provider {
+    readonly name: string;
+
+    constructor(private readonly config: FallbackProviderConfig) {
+        this.name = config.provider.name;
+    }
+
+    supportsModel(model: string): boolean {
+        return this.config.provider.supportsModel?.(model) ?? true;
+    }
+
+    async execute(request: Request, options: ExecutionOptions = {}): Promise<ProviderResponse> {
+        const targets = this.route(request, options);
+        const failures: FallbackFailure[] = [];
+        for (let i = 0; ; i++) {
+            const target = targets[i];
+            const provider = target.provider ?? this.config.provider;
+            try {
+                const response = await provider.execute(request, this.targetOptions(target, options));
+                return { ...response, servedBy: this.servedBy(target, request, options, failures) };
+            } catch (error) {
+                this.fallBack(error as Error, targets, i, failures, options);
+            }
+        }
+    }
+
+    /**
+     * Stream from the first target that starts. Once a chunk has been
+     * yielded, failures are thrown rather than replayed on another target.
+     */
+    async *executeStream(request: Request, options: ExecutionOptions = {}): AsyncIterable<StreamChunk> {
+        const targets = this.route(request, options);
+        const failures: FallbackFailure[] = [];
+        for (let i = 0; ; i++) {
+            const target = targets[i];
+            const provider = target.provider ?? this.config.provider;
+            if (!provider.executeStream) {
+                throw new Error(`Provider "${provider.name}" does not support streaming`);
+            }
+            let started = false;
+            try {
+                for await (const chunk of provider.executeStream(request, this.targetOptions(target, options))) {
+                    started = true;
+                    if (chunk.type === 'done' && chunk.response) {
+                        const servedBy = this.servedBy(target, request, options, failures);
+                        yield { ...chunk, response: { ...chunk.response, servedBy } };
+                    } else {
+                        yield chunk;
+                    }
+                }
+                return;
+            } catch (error) {
+                if (started) {
+                    throw error;
+                }
+                this.fallBack(error as Error, targets, i, failures, options);
+            }
+        }
+    }
+
+    /**
+     * Close providers that hold connections, e.g. `OpenAIProvider` pools.
+     */
+    async close(): Promise<void> {
+        const providers = new Set([
+            this.config.provider,
+            ...[...this.config.targets, ...(this.config.routes ?? []).flatMap((route) => route.targets)]
+                .map((target) => target.provider)
+                .filter((provider): provider is Provider => provider !== undefined),
+        ]);
+        await Promise.all([...providers].map((provider) => (provider as { close?: () => Promise<void> }).close?.()));
+    }
+
+    private route(request: Request, options: ExecutionOptions): FallbackTarget[] {
+        const model = options.model || request.model || DEFAULT_MODEL;
+        let promptTokens: number | undefined;
+        const context: RouteContext = {
+            request,
+            options,
+            get promptTokens() {
+                promptTokens ??= countMessageTokens(request.messages, model, request.tools);
+                return promptTokens;
+            },
+        };
+        const targets = this.config.routes?.find((route) => route.when(context))?.targets ?? this.config.targets;
+        if (!targets.length) {
+            throw new Error('FallbackProvider needs at least one target');
+        }
+        return targets;
+    }
+
+    /**
+     * Record a failure and return if the next target should be tried;
+     * otherwise rethrow it.
+     */
+    private fallBack(
+        error: Error,
+        targets: FallbackTarget[],
+        index: number,
+        failures: FallbackFailure[],
+        options: ExecutionOptions
+    ): void {
+        const target = targets[index];
+        const shouldFallback = this.config.shouldFallback ?? isFallbackError;
+        if (index + 1 >= targets.length || options.signal?.aborted || !shouldFallback(error, target)) {
+            throw error;
+        }
+        const from = targetName(target);
+        failures.push({ target: from, error });
+        try {
+            this.config.onFallback?.({ from, to: targetName(targets[index + 1]), error });
+        } catch {
+            // A logging callback must not stop the fallback
+        }
+    }
+
+    private targetOptions(target: FallbackTarget, options: ExecutionOptions): ExecutionOptions {
+        return {
+            ...options,
+            ...target.options,
+            ...(target.model ? { model: target.model } : {}),
+            ...(target.baseURL ? { baseURL: target.baseURL } : {}),
+            ...(target.apiKey ? { apiKey: target.apiKey } : {}),
+        };
+    }
+
+    private servedBy(
+        target: FallbackTarget,
+        request: Request,
+        options: ExecutionOptions,
+        failures: FallbackFailure[]
+    ): ServedBy {
+        const { model, baseURL } = this.targetOptions(target, options);
+        return {
+            target: targetName(target),
+            model: model || request.model || DEFAULT_MODEL,
+            ...(baseURL ? { baseURL } : {}),
+            failures: [...failures],
+        };
+    }
+}
+
+function targetName(target: FallbackTarget): string {
+    return target.name ?? ([target.model, target.baseURL].filter(Boolean).join(' @ ') || 'default');
+}
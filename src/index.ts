@@ -8,9 +8,99 @@
 
 import OpenAI from 'openai';
 import { getRedactor } from '@utilarium/offrecord';
-import { getProxyUrl, createProxyFetch } from './proxy.js';
-import { 
-    createSafeError, 
+import { getProxyUrl } from './proxy.js';
+import { ClientPool, toRequestOptions, type ConnectionPoolOptions } from './pool.js';
+import { buildToolChoice, buildTools, getToolCallId, getToolCalls } from './tools.js';
+import { countMessageTokens, countTokens, getContextWindow, trimMessagesToFit } from './tokens.js';
+import {
+    AbortError,
+    AuthenticationError,
+    ContextLengthExceededError,
+    StructuredOutputValidationError,
+    toProviderError,
+    UnsupportedFeatureError,
+} from './errors.js';
+import {
+    runTools,
+    runToolsStream,
+    type RunToolsOptions,
+    type RunToolsResult,
+    type RunToolsStreamEvent,
+} from './run-tools.js';
+import { estimateCost, type ModelPricing, type SpendTracker } from './cost.js';
+import { addUsage, mapChatUsage, normalizeChatFinishReason } from './usage.js';
+import { responseToStreamChunks, StreamResponseCollector, toolCallEndChunk } from './stream.js';
+import { responseCacheKey, type ResponseCacheOptions } from './cache.js';
+import type { RateLimiter } from './rate-limit.js';
+import type { ServedBy } from './fallback.js';
+import {
+    CallObserver,
+    getResponseRequestId,
+    type CallInfo,
+    type ExecutionHooks,
+    type TelemetryOptions,
+} from './telemetry.js';
+import {
+    BATCH_PRICE_MULTIPLIER,
+    createBatch,
+    pollBatch,
+    readBatchResults,
+    toBatchItems,
+    type BatchEndpoint,
+    type BatchItem,
+    type BatchJob,
+    type BatchLine,
+    type BatchOptions,
+    type BatchResult,
+} from './batch.js';
+import {
+    batchEmbeddingInputs,
+    decodeEmbedding,
+    DEFAULT_EMBEDDING_MODEL,
+    type EmbedOptions,
+    type EmbeddingResponse,
+} from './embeddings.js';
+import { assertContentSupported, mapContentToOpenAI, type ContentPart } from './content.js';
+import {
+    buildChatSamplingParams,
+    buildResponsesSamplingParams,
+    mapLogprobs,
+    type TokenLogprob,
+} from './sampling.js';
+import {
+    acceptsSampling,
+    clampMaxTokens,
+    DEFAULT_MODEL,
+    getModelCapabilities,
+    getReasoningHeadroom,
+    modelRegistry,
+    resolveModel,
+    type ReasoningEffort,
+} from './models.js';
+import {
+    buildRepairMessages,
+    expectsStructuredOutput,
+    parseStructuredOutput,
+    resolveResponseFormat,
+    type OutputValidator,
+    type StructuredOutputFormat,
+} from './structured.js';
+import {
+    buildResponsesToolChoice,
+    buildResponsesTools,
+    mapMessagesToResponsesInput,
+    mapResponseFormatToResponses,
+    mapResponseToProviderResponse,
+    mapResponsesStream,
+} from './responses.js';
+import {
+    withRetry,
+    resolveRetryPolicy,
+    isRetryableError,
+    computeRetryDelayMs,
+    sleep,
+} from './retry.js';
+import {
     configureErrorSanitizer,
     configureSecretGuard,
 } from '@utilarium/spotclean';
@@ -54,132 +144,450 @@ configureSecretGuard({
 
 export type Model = string;
 
+export interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        /** JSON-encoded arguments, as produced by the model */
+        arguments: string;
+    };
+}
+
 export interface Message {
     role: 'user' | 'assistant' | 'system' | 'developer' | 'tool';
-    content: string | string[] | null;
+    /** Plain text, or an array of strings and typed text/image/audio/file parts */
+    content: string | Array<string | ContentPart> | null;
     name?: string;
+    /** On `tool` messages: the ID of the call this message answers */
+    toolCallId?: string;
+    /** On `assistant` messages: the tool calls the model requested */
+    toolCalls?: ToolCall[];
+}
+
+/**
+ * A JSON Schema node inside tool parameters: primitives, nested objects,
+ * arrays of objects, unions and `$ref`s into `$defs`.
+ */
+export interface ToolSchemaProperty {
+    type?: string | string[];
+    description?: string;
+    enum?: Array<string | number | boolean | null>;
+    const?: unknown;
+    default?: any;
+    items?: ToolSchemaProperty;
+    properties?: Record<string, ToolSchemaProperty>;
+    required?: string[];
+    additionalProperties?: boolean | ToolSchemaProperty;
+    anyOf?: ToolSchemaProperty[];
+    oneOf?: ToolSchemaProperty[];
+    allOf?: ToolSchemaProperty[];
+    $ref?: string;
+    /** Other JSON Schema keywords (format, minimum, pattern, ...) */
+    [keyword: string]: unknown;
 }
 
 export interface ToolParameterSchema {
     type: 'object';
-    properties: Record<string, {
-        type: string;
-        description?: string;
-        enum?: string[];
-        items?: { type: string };
-        default?: any;
-    }>;
+    properties: Record<string, ToolSchemaProperty>;
     required?: string[];
     additionalProperties?: boolean;
+    $defs?: Record<string, ToolSchemaProperty>;
 }
 
 export interface ToolDefinition {
     name: string;
     description: string;
     parameters: ToolParameterSchema;
+    /**
+     * Enforce the schema exactly (OpenAI strict mode). The schema is
+     * rewritten like structured output schemas: objects are closed and
+     * optional properties become required but nullable.
+     */
+    strict?: boolean;
 }
 
-export type StreamChunkType = 'text' | 'tool_call_start' | 'tool_call_delta' | 'tool_call_end' | 'usage' | 'done';
+/**
+ * Whether the model may call tools: `auto` (default), `none`, `required`
+ * (at least one call), or a specific function by name.
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export type StreamChunkType =
+    | 'text'
+    | 'refusal'
+    | 'tool_call_start'
+    | 'tool_call_delta'
+    | 'tool_call_end'
+    | 'usage'
+    | 'done';
+
+/**
+ * Why generation stopped: natural end, output cap reached, tool calls
+ * requested, or content filtered.
+ */
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter';
+
+export interface Usage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens?: number;
+    /** Input tokens served from the prompt cache */
+    cachedInputTokens?: number;
+    /** Hidden reasoning tokens, included in `outputTokens` */
+    reasoningTokens?: number;
+    inputAudioTokens?: number;
+    outputAudioTokens?: number;
+}
 
 export interface StreamChunk {
     type: StreamChunkType;
     text?: string;
+    /** Refusal text, on `refusal` chunks */
+    refusal?: string;
     toolCall?: {
         id?: string;
         index?: number;
         name?: string;
         argumentsDelta?: string;
+        /** On `tool_call_end`: the complete JSON arguments */
+        arguments?: string;
+        /** On `tool_call_end`: `arguments` parsed, unless `parseError` is set */
+        parsedArguments?: unknown;
+        parseError?: string;
+        /** On `tool_call_end`: the call was cut off (output cap, filter or dropped stream) */
+        truncated?: boolean;
     };
-    usage?: {
-        inputTokens: number;
-        outputTokens: number;
-    };
+    /** On `text` chunks, when `logprobs` was requested */
+    logprobs?: TokenLogprob[];
+    usage?: Usage;
+    /** Estimated USD cost, on the `usage` chunk */
+    cost?: number;
+    /** On the `done` chunk */
+    finishReason?: FinishReason;
+    /** On the `done` chunk: the response ID, when the API reported one */
+    id?: string;
+    /** On the `done` chunk of Chat Completions streams, when reported */
+    systemFingerprint?: string;
+    /** On the `done` chunk from `executeStream`: everything streamed, aggregated */
+    response?: ProviderResponse;
 }
 
+/**
+ * A raw Chat Completions `response_format`, or a JSON Schema descriptor that
+ * is turned into a strict `json_schema` format and validated on return.
+ */
+export type ResponseFormat = OpenAI.ChatCompletionCreateParams['response_format'] | StructuredOutputFormat;
+
 export interface Request {
     messages: Message[];
     model: Model;
-    responseFormat?: any;
-    validator?: any;
+    responseFormat?: ResponseFormat;
+    /** Validates parsed JSON output; its `schema`, if any, doubles as the response format */
+    validator?: OutputValidator;
     tools?: ToolDefinition[];
+    /** Ignored when `tools` is empty */
+    toolChoice?: ToolChoice;
+    /** Allow several tool calls in one turn. Defaults to the API's default (true). */
+    parallelToolCalls?: boolean;
     addMessage(message: Message): void;
 }
 
-export interface ProviderResponse {
+export interface ProviderResponse<TParsed = unknown> {
+    /** Response ID; pass as `previousResponseId` to continue a Responses API conversation */
+    id?: string;
     content: string;
+    /** Parsed and validated JSON, when the request asked for structured output */
+    parsed?: TParsed;
+    /** Set when the model declined to answer; no `parsed` value is produced */
+    refusal?: string;
+    finishReason?: FinishReason;
     model: string;
-    usage?: {
-        inputTokens: number;
-        outputTokens: number;
-    };
-    toolCalls?: Array<{
-        id: string;
-        type: 'function';
-        function: {
-            name: string;
-            arguments: string;
-        };
-    }>;
+    /** Backend configuration fingerprint reported by Chat Completions */
+    systemFingerprint?: string;
+    usage?: Usage;
+    /** Estimated USD cost, summed over repair round-trips */
+    cost?: number;
+    toolCalls?: ToolCall[];
+    /** Token logprobs of `content`, when `logprobs` was requested */
+    logprobs?: TokenLogprob[];
+    /**
+     * Every generated choice when `n` > 1; the top-level fields mirror the
+     * first. `usage` and `cost` cover all of them.
+     */
+    choices?: ProviderChoice[];
+    /** Served from the response cache; `cost` is 0 and `usage` is the original call's */
+    cached?: boolean;
+    /** Set by `FallbackProvider`: the target that produced this response */
+    servedBy?: ServedBy;
+}
+
+/** One of several completions generated with `n` > 1 */
+export interface ProviderChoice {
+    index: number;
+    content: string;
+    refusal?: string;
+    finishReason?: FinishReason;
+    toolCalls?: ToolCall[];
+    logprobs?: TokenLogprob[];
 }
 
 export interface ExecutionOptions {
     apiKey?: string;
+    /** Overrides `OpenAIProviderConfig.baseURL` for this call */
+    baseURL?: string;
+    /** Overrides `OpenAIProviderConfig.organization` for this call */
+    organization?: string;
+    /** Overrides `OpenAIProviderConfig.project` for this call */
+    project?: string;
+    /** Extra headers for this call, merged over `OpenAIProviderConfig.defaultHeaders` */
+    headers?: Record<string, string>;
     model?: string;
     temperature?: number;
     maxTokens?: number;
+    /** Per-attempt request timeout in milliseconds */
+    timeout?: number;
+    /** Retries for transient failures (429, 5xx, connection resets). Defaults to 2. */
+    retries?: number;
+    /** Overrides `OpenAIProviderConfig.contextOverflow` for this call */
+    contextOverflow?: ContextOverflowStrategy;
+    /** Overrides `OpenAIProviderConfig.api` for this call */
+    api?: OpenAIApi;
+    /** Continue a stored Responses API conversation (Responses backend only) */
+    previousResponseId?: string;
+    /** Overrides `OpenAIProviderConfig.structuredOutputRepairs` for this call */
+    structuredOutputRepairs?: number;
+    /** Overrides `OpenAIProviderConfig.spendTracker` for this call */
+    spendTracker?: SpendTracker;
+    /** Cancels the call; it then rejects with `AbortError` */
+    signal?: AbortSignal;
+    /**
+     * Called when a stream that has started ends before its `done` chunk
+     * (aborted, failed, or left by the consumer breaking out of the loop)
+     * with the text received so far and its usage, estimated when none
+     * was reported.
+     */
+    onStreamStopped?: (partial: { text: string; usage?: Usage }) => void;
+    /** Set to false to bypass `OpenAIProviderConfig.cache` for this call */
+    cache?: boolean;
+    /** Queue position under `OpenAIProviderConfig.rateLimiter`; higher goes first. Defaults to 0. */
+    priority?: number;
+    /** How much the model reasons before answering; only for models that accept it */
+    reasoningEffort?: ReasoningEffort;
+    /** How long the answer should be; GPT-5 models only */
+    verbosity?: Verbosity;
+    /** Processing tier, e.g. `flex` for cheaper, slower calls */
+    serviceTier?: ServiceTier;
+    /**
+     * Output tokens added to `maxTokens` on reasoning models so hidden
+     * reasoning doesn't starve the visible answer. Defaults to an amount
+     * scaled by the reasoning effort; 0 sends `maxTokens` as is.
+     */
+    reasoningHeadroom?: number;
+    /** Nucleus sampling: only tokens within this probability mass (0-1) are considered */
+    topP?: number;
+    /** Up to 4 sequences that end generation */
+    stop?: string | string[];
+    /** Best-effort deterministic sampling; compare `systemFingerprint` across calls */
+    seed?: number;
+    /** -2 to 2; positive values favour new topics */
+    presencePenalty?: number;
+    /** -2 to 2; positive values discourage repetition */
+    frequencyPenalty?: number;
+    /** Token ID to bias (-100 to 100) */
+    logitBias?: Record<string, number>;
+    /** Choices to generate; more than one fills `ProviderResponse.choices` (Chat Completions, `execute` only) */
+    n?: number;
+    /** Return token logprobs on the response and on text stream chunks */
+    logprobs?: boolean;
+    /** Alternatives (0-20) reported per token; implies `logprobs` */
+    topLogprobs?: number;
+    /** End-user ID for abuse monitoring */
+    user?: string;
+    /** Up to 16 key-value pairs stored with the completion */
+    metadata?: Record<string, string>;
+    /** Store the completion for evals and distillation */
+    store?: boolean;
+}
+
+/** Answer length for models that accept `verbosity` */
+export type Verbosity = 'low' | 'medium' | 'high';
+
+export type ServiceTier = 'auto' | 'default' | 'flex' | 'scale' | 'priority';
+
+/**
+ * Which OpenAI endpoint serves `execute` and `executeStream`.
+ */
+export type OpenAIApi = 'chat' | 'responses';
+
+/**
+ * What to do when the prompt plus `maxTokens` won't fit in the model's
+ * context window: throw `ContextLengthExceededError`, drop the oldest
+ * conversation turns, or send the request anyway.
+ */
+export type ContextOverflowStrategy = 'error' | 'trim' | 'ignore';
+
+/**
+ * Provider-wide configuration. Every field is optional. `apiKey`,
+ * `baseURL`, `organization`, `project`, `timeout`, `retries`,
+ * `contextOverflow`, `api`, `structuredOutputRepairs` and `spendTracker`
+ * can be overridden per call through `ExecutionOptions`; per-call `headers`
+ * are merged over `defaultHeaders`, and `cache: false` bypasses the cache.
+ * The rest apply to the whole provider.
+ */
+export interface OpenAIProviderConfig {
+    /** API key; falls back to OPENAI_API_KEY */
+    apiKey?: string;
+    /** Custom endpoint (Azure-compatible gateway, LiteLLM, vLLM, local mock, ...) */
+    baseURL?: string;
+    /** OpenAI organization ID, sent as OpenAI-Organization */
+    organization?: string;
+    /** OpenAI project ID, sent as OpenAI-Project */
+    project?: string;
+    /** Headers sent with every request */
+    defaultHeaders?: Record<string, string>;
+    /** Default per-attempt request timeout in milliseconds */
     timeout?: number;
+    /** Default number of retries for transient failures */
     retries?: number;
+    /**
+     * Check the API key against the OpenAI key format before sending it.
+     * Disable for gateways that issue their own keys. Defaults to true.
+     */
+    validateApiKey?: boolean;
+    /** Connection limits and keep-alive for the shared HTTP dispatcher */
+    pool?: ConnectionPoolOptions;
+    /** Pre-flight context window check. Defaults to 'error'. */
+    contextOverflow?: ContextOverflowStrategy;
+    /** Backend endpoint: Chat Completions or the Responses API. Defaults to 'chat'. */
+    api?: OpenAIApi;
+    /**
+     * Round-trips that send validation errors back to the model when
+     * structured output fails to parse or validate. Defaults to 1.
+     */
+    structuredOutputRepairs?: number;
+    /**
+     * Price overrides in USD per million tokens, keyed by model ID. Needed
+     * for fine-tuned `ft:` models, which have no built-in price.
+     */
+    pricing?: Record<string, ModelPricing>;
+    /** Records the estimated cost of every call and enforces its budget */
+    spendTracker?: SpendTracker;
+    /**
+     * Custom transport, e.g. `createCassetteFetch` for offline tests.
+     * Replaces the pooled dispatchers and proxy handling.
+     */
+    fetch?: typeof fetch;
+    /**
+     * Opt-in response cache, keyed by a hash of the request params. Hits
+     * skip the network and report `cached: true` with zero cost.
+     */
+    cache?: ResponseCacheOptions;
+    /** Lifecycle callbacks for every API call made by `execute` and `executeStream` */
+    hooks?: ExecutionHooks;
+    /** OpenTelemetry tracing: one GenAI client span per API call */
+    telemetry?: TelemetryOptions;
+    /** Client-side rate limits and concurrency cap; share one across providers on the same quota */
+    rateLimiter?: RateLimiter;
 }
 
-/** O-series / reasoning models reject custom temperature on Chat Completions. */
-function isOpenAIReasoningModel(model: string): boolean {
-    return /^o\d/i.test(model.trim());
+/**
+ * Whether an error comes from a cancelled call rather than a failed one.
+ */
+function isAbortError(error: unknown, signal: AbortSignal | undefined): boolean {
+    const name = (error as { name?: string } | null)?.name;
+    return signal?.aborted === true || name === 'AbortError' || name === 'APIUserAbortError';
 }
 
-function mapRequestMessagesToOpenAI(request: Request): OpenAI.ChatCompletionMessageParam[] {
-    return request.messages.map((msg) => {
+function mapMessagesToOpenAI(messages: Message[]): OpenAI.ChatCompletionMessageParam[] {
+    return messages.map((msg) => {
         if (msg.role === 'tool') {
             return {
                 role: 'tool',
                 content: typeof msg.content === 'string'
                     ? msg.content
                     : JSON.stringify(msg.content),
-                tool_call_id: (msg as { tool_call_id?: string }).tool_call_id || '',
+                tool_call_id: getToolCallId(msg),
             };
         }
         if (msg.role === 'assistant') {
-            const extra = msg as unknown as { tool_calls?: unknown };
-            if (extra.tool_calls) {
+            const toolCalls = getToolCalls(msg);
+            if (toolCalls.length) {
                 return {
                     role: 'assistant',
-                    content: msg.content,
-                    tool_calls: extra.tool_calls,
+                    content: msg.content == null ? null : mapContentToOpenAI(msg.content),
+                    tool_calls: toolCalls,
                 } as OpenAI.ChatCompletionMessageParam;
             }
         }
         return {
             role: msg.role,
-            content:
-                typeof msg.content === 'string'
-                    ? msg.content
-                    : JSON.stringify(msg.content),
+            content: mapContentToOpenAI(msg.content),
             ...(msg.name ? { name: msg.name } : {}),
         } as OpenAI.ChatCompletionMessageParam;
     });
 }
 
-function buildTools(request: Request): OpenAI.ChatCompletionTool[] | undefined {
-    if (!request.tools?.length) {
-        return undefined;
-    }
-    return request.tools.map((tool) => ({
-        type: 'function' as const,
-        function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters as unknown as OpenAI.FunctionParameters,
-        },
-    }));
+/**
+ * Resolve the output cap and temperature to send for a model: the cap gets
+ * reasoning headroom and is clamped to the model's maximum, and temperature
+ * is dropped for models that reject it (e.g. O-series reasoning models).
+ */
+function resolveMaxTokensAndTemperature(
+    model: string,
+    options: ExecutionOptions
+): { maxTokens?: number; temperature?: number } {
+    const headroom = options.reasoningHeadroom ?? getReasoningHeadroom(model, options.reasoningEffort);
+    return {
+        ...(options.maxTokens != null ? { maxTokens: clampMaxTokens(model, options.maxTokens + headroom) } : {}),
+        ...(options.temperature !== undefined &&
+            options.temperature !== null &&
+            acceptsSampling(model, 'temperature', options.reasoningEffort)
+            ? { temperature: options.temperature }
+            : {}),
+    };
+}
+
+/**
+ * Reject requests that rely on tools or structured output when the model
+ * registry says the model lacks them.
+ */
+function assertFeaturesSupported(model: string, request: Request): void {
+    const capabilities = getModelCapabilities(model);
+    if (!capabilities) {
+        return;
+    }
+    if (request.tools?.length && !capabilities.tools) {
+        throw new UnsupportedFeatureError(model, 'tools');
+    }
+    if (resolveResponseFormat(request)?.type === 'json_schema' && !capabilities.structuredOutput) {
+        throw new UnsupportedFeatureError(model, 'structured output');
+    }
+}
+
+/**
+ * Check reasoning effort and verbosity against the model registry. Unknown
+ * models get them passed through.
+ */
+function resolveReasoningOptions(
+    model: string,
+    options: ExecutionOptions
+): { reasoningEffort?: ReasoningEffort; verbosity?: Verbosity; serviceTier?: ServiceTier } {
+    const { reasoningEffort, verbosity, serviceTier } = options;
+    const capabilities = getModelCapabilities(model);
+    if (reasoningEffort !== undefined && capabilities && (
+        !capabilities.reasoningEffort || capabilities.reasoningEfforts?.includes(reasoningEffort) === false
+    )) {
+        throw new UnsupportedFeatureError(model, `reasoning effort '${reasoningEffort}'`);
+    }
+    if (verbosity !== undefined && capabilities && !capabilities.verbosity) {
+        throw new UnsupportedFeatureError(model, 'verbosity');
+    }
+    return {
+        ...(reasoningEffort !== undefined ? { reasoningEffort } : {}),
+        ...(verbosity !== undefined ? { verbosity } : {}),
+        ...(serviceTier !== undefined ? { serviceTier } : {}),
+    };
 }
 
 function appendMaxTokensAndTemperature(
@@ -187,16 +595,175 @@ function appendMaxTokensAndTemperature(
     options: ExecutionOptions,
     params: OpenAI.ChatCompletionCreateParams
 ): void {
-    if (options.maxTokens != null) {
-        params.max_completion_tokens = options.maxTokens;
+    const { maxTokens, temperature } = resolveMaxTokensAndTemperature(model, options);
+    if (maxTokens !== undefined) {
+        params.max_completion_tokens = maxTokens;
+    }
+    if (temperature !== undefined) {
+        params.temperature = temperature;
+    }
+    const { reasoningEffort, verbosity, serviceTier } = resolveReasoningOptions(model, options);
+    if (reasoningEffort !== undefined) {
+        params.reasoning_effort = reasoningEffort;
+    }
+    if (verbosity !== undefined) {
+        params.verbosity = verbosity;
+    }
+    if (serviceTier !== undefined) {
+        params.service_tier = serviceTier;
+    }
+}
+
+/**
+ * Convert a Chat Completions result into a provider response.
+ */
+function mapChatCompletion(response: OpenAI.ChatCompletion): ProviderResponse {
+    return {
+        ...(response.id ? { id: response.id } : {}),
+        ...mapChatChoice(response.choices[0]),
+        model: response.model,
+        ...(response.system_fingerprint ? { systemFingerprint: response.system_fingerprint } : {}),
+        usage: response.usage ? mapChatUsage(response.usage) : undefined,
+        ...(response.choices.length > 1
+            ? { choices: response.choices.map((choice) => ({ index: choice.index, ...mapChatChoice(choice) })) }
+            : {}),
+    };
+}
+
+/**
+ * Convert one Chat Completions choice; the first also fills the top level
+ * of the provider response.
+ */
+function mapChatChoice(choice: OpenAI.ChatCompletion.Choice): Omit<ProviderChoice, 'index'> {
+    const assistantMessage = choice.message;
+    const finishReason = normalizeChatFinishReason(choice.finish_reason);
+    const logprobs = mapLogprobs(choice.logprobs?.content);
+
+    return {
+        content: assistantMessage.content ?? '',
+        ...(assistantMessage.refusal ? { refusal: assistantMessage.refusal } : {}),
+        ...(finishReason ? { finishReason } : {}),
+        toolCalls: assistantMessage.tool_calls
+            ?.filter((tc) => tc.type === 'function')
+            .map((tc) => ({
+                id: tc.id,
+                type: 'function' as const,
+                function: {
+                    name: (tc as any).function.name,
+                    arguments: (tc as any).function.arguments,
+                },
+            })),
+        ...(logprobs ? { logprobs } : {}),
+    };
+}
+
+/**
+ * Translate Chat Completions stream chunks into provider stream chunks.
+ */
+async function* mapChatCompletionStream(
+    stream: AsyncIterable<OpenAI.ChatCompletionChunk>
+): AsyncGenerator<StreamChunk> {
+    let finishReason: FinishReason | undefined;
+    // Repeated on every chunk; kept for the `done` chunk
+    let id: string | undefined;
+    let systemFingerprint: string | undefined;
+
+    // Track tool calls being built
+    const toolCallsInProgress: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    for await (const chunk of stream) {
+        id ||= chunk.id;
+        systemFingerprint ||= chunk.system_fingerprint ?? undefined;
+        const delta = chunk.choices[0]?.delta;
+        
+        if (delta?.content) {
+            const logprobs = mapLogprobs(chunk.choices[0].logprobs?.content);
+            yield { type: 'text', text: delta.content, ...(logprobs ? { logprobs } : {}) };
+        }
+
+        if (delta?.refusal) {
+            yield { type: 'refusal', refusal: delta.refusal };
+        }
+
+        if (delta?.tool_calls) {
+            for (const tc of delta.tool_calls) {
+                const index = tc.index;
+                
+                if (tc.id) {
+                    // New tool call starting
+                    toolCallsInProgress.set(index, {
+                        id: tc.id,
+                        name: tc.function?.name || '',
+                        arguments: '',
+                    });
+                    yield {
+                        type: 'tool_call_start',
+                        toolCall: {
+                            id: tc.id,
+                            index,
+                            name: tc.function?.name,
+                        },
+                    };
+                }
+
+                if (tc.function?.name) {
+                    const existing = toolCallsInProgress.get(index);
+                    if (existing) {
+                        existing.name = tc.function.name;
+                    } else {
+                        toolCallsInProgress.set(index, {
+                            id: tc.id || '',
+                            name: tc.function.name,
+                            arguments: '',
+                        });
+                    }
+                }
+                
+                if (tc.function?.arguments) {
+                    const toolCall = toolCallsInProgress.get(index);
+                    if (toolCall) {
+                        toolCall.arguments += tc.function.arguments;
+                        yield {
+                            type: 'tool_call_delta',
+                            toolCall: {
+                                index,
+                                argumentsDelta: tc.function.arguments,
+                            },
+                        };
+                    }
+                }
+            }
+        }
+
+        if (chunk.choices[0]?.finish_reason) {
+            finishReason = normalizeChatFinishReason(chunk.choices[0].finish_reason);
+
+            // Calls cut off by the output cap or the content filter are
+            // flagged so consumers don't act on partial arguments
+            const truncated = finishReason === 'length' || finishReason === 'content_filter';
+            for (const [index, toolCall] of toolCallsInProgress) {
+                yield toolCallEndChunk({ ...toolCall, index }, truncated);
+            }
+            toolCallsInProgress.clear();
+        }
+
+        // Usage comes at the end
+        if (chunk.usage) {
+            yield { type: 'usage', usage: mapChatUsage(chunk.usage) };
+        }
     }
-    if (
-        options.temperature !== undefined &&
-        options.temperature !== null &&
-        !isOpenAIReasoningModel(model)
-    ) {
-        params.temperature = options.temperature;
+
+    // The stream ended without a finish reason
+    for (const [index, toolCall] of toolCallsInProgress) {
+        yield toolCallEndChunk({ ...toolCall, index }, true);
     }
+
+    yield {
+        type: 'done',
+        ...(finishReason ? { finishReason } : {}),
+        ...(id ? { id } : {}),
+        ...(systemFingerprint ? { systemFingerprint } : {}),
+    };
 }
 
 export interface Provider {
@@ -212,18 +779,177 @@ export interface Provider {
 export class OpenAIProvider implements Provider {
     readonly name = 'openai';
 
+    private readonly pool: ClientPool;
+
+    constructor(private readonly config: OpenAIProviderConfig = {}) {
+        const limiter = config.rateLimiter;
+        this.pool = new ClientPool(config.pool, config.fetch, limiter && ((headers) => limiter.updateFromHeaders(headers)));
+    }
+
+    /**
+     * Close pooled connections. Call on shutdown so keep-alive sockets
+     * don't hold the process open; the provider remains usable afterwards.
+     */
+    async close(): Promise<void> {
+        await this.pool.close();
+    }
+
     /**
      * Check if this provider supports a given model
      */
     supportsModel(model: Model): boolean {
         if (!model) return true; // Default to OpenAI
-        const m = model.toLowerCase();
-        return (
-            m.startsWith('gpt') ||
-            /^o\d/.test(m) ||
-            m.startsWith('ft:') ||
-            m.startsWith('chatgpt-4o')
-        );
+        return modelRegistry.has(model);
+    }
+
+    /**
+     * Resolve the API key for a call and check its format
+     */
+    private resolveApiKey(options: ExecutionOptions): string {
+        const apiKey = options.apiKey || this.config.apiKey || process.env.OPENAI_API_KEY;
+
+        if (!apiKey) {
+            throw new AuthenticationError('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
+        }
+
+        // Validate key format
+        if (this.config.validateApiKey !== false) {
+            const validation = redactor.validateKey(apiKey, 'openai');
+            if (!validation.valid) {
+                throw new AuthenticationError('Invalid OpenAI API key format', { code: 'invalid_api_key' });
+            }
+        }
+
+        return apiKey;
+    }
+
+    /**
+     * Get a pooled SDK client for a call, layering per-call connection
+     * options over the provider config. Per-call `headers` and `timeout`
+     * are sent with each request instead (see `toRequestOptions`). The
+     * SDK's own retries are disabled; `withRetry` applies the provider's
+     * policy instead.
+     */
+    private createClient(apiKey: string, options: ExecutionOptions): OpenAI {
+        const baseURL = options.baseURL ?? this.config.baseURL;
+        const organization = options.organization ?? this.config.organization;
+        const project = options.project ?? this.config.project;
+        const timeout = this.config.timeout;
+        const headers = { ...this.config.defaultHeaders };
+
+        const clientOptions: ConstructorParameters<typeof OpenAI>[0] = {
+            apiKey,
+            maxRetries: 0,
+            ...(baseURL ? { baseURL } : {}),
+            ...(organization ? { organization } : {}),
+            ...(project ? { project } : {}),
+            ...(timeout != null ? { timeout } : {}),
+            ...(Object.keys(headers).length ? { defaultHeaders: headers } : {}),
+        };
+        return this.pool.getClient(clientOptions, getProxyUrl());
+    }
+
+    /**
+     * Resolve the model (following registry aliases) and the messages to
+     * send, after checking content and feature support and that the prompt
+     * fits the context window.
+     */
+    private prepareMessages(request: Request, options: ExecutionOptions): { model: string; messages: Message[] } {
+        const model = resolveModel(options.model || request.model || DEFAULT_MODEL);
+        assertContentSupported(model, request.messages);
+        assertFeaturesSupported(model, request);
+        return { model, messages: this.fitContextWindow(model, request, options) };
+    }
+
+    /**
+     * Build the Chat Completions params shared by `execute` and
+     * `executeStream`.
+     */
+    private buildChatParams(
+        request: Request,
+        options: ExecutionOptions
+    ): OpenAI.ChatCompletionCreateParamsNonStreaming {
+        const { model, messages } = this.prepareMessages(request, options);
+        const openaiTools = buildTools(request.tools);
+
+        const responseFormat = resolveResponseFormat(request);
+
+        const toolChoice = buildToolChoice(request.toolChoice);
+
+        const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+            model,
+            messages: mapMessagesToOpenAI(messages),
+            ...(responseFormat != null ? { response_format: responseFormat } : {}),
+            ...(openaiTools ? { tools: openaiTools } : {}),
+            ...(openaiTools && toolChoice !== undefined ? { tool_choice: toolChoice } : {}),
+            ...(openaiTools && request.parallelToolCalls !== undefined
+                ? { parallel_tool_calls: request.parallelToolCalls }
+                : {}),
+            ...buildChatSamplingParams(model, options),
+        };
+        appendMaxTokensAndTemperature(model, options, params);
+        return params;
+    }
+
+    /**
+     * Build the Responses API params shared by `execute` and `executeStream`.
+     */
+    private buildResponsesParams(
+        request: Request,
+        options: ExecutionOptions
+    ): OpenAI.Responses.ResponseCreateParamsNonStreaming {
+        const { model, messages } = this.prepareMessages(request, options);
+        const tools = buildResponsesTools(request.tools);
+        const toolChoice = buildResponsesToolChoice(request.toolChoice);
+        const format = mapResponseFormatToResponses(resolveResponseFormat(request));
+        const { maxTokens, temperature } = resolveMaxTokensAndTemperature(model, options);
+        const { reasoningEffort, verbosity, serviceTier } = resolveReasoningOptions(model, options);
+        const text = { ...(format ? { format } : {}), ...(verbosity ? { verbosity } : {}) };
+
+        return {
+            model,
+            input: mapMessagesToResponsesInput(messages),
+            ...(tools ? { tools } : {}),
+            ...(tools && toolChoice !== undefined ? { tool_choice: toolChoice } : {}),
+            ...(tools && request.parallelToolCalls !== undefined
+                ? { parallel_tool_calls: request.parallelToolCalls }
+                : {}),
+            ...(Object.keys(text).length ? { text } : {}),
+            ...(maxTokens !== undefined ? { max_output_tokens: maxTokens } : {}),
+            ...(temperature !== undefined ? { temperature } : {}),
+            ...(reasoningEffort !== undefined ? { reasoning: { effort: reasoningEffort } } : {}),
+            ...(serviceTier !== undefined ? { service_tier: serviceTier } : {}),
+            ...buildResponsesSamplingParams(model, options),
+            ...(options.previousResponseId ? { previous_response_id: options.previousResponseId } : {}),
+        };
+    }
+
+    /**
+     * Pre-flight check that the prompt plus `maxTokens` fits the model's
+     * context window. Depending on the overflow strategy this throws,
+     * trims the oldest turns, or lets the request through unchanged.
+     */
+    private fitContextWindow(model: string, request: Request, options: ExecutionOptions): Message[] {
+        const strategy = options.contextOverflow ?? this.config.contextOverflow ?? 'error';
+        const contextWindow = getContextWindow(model);
+        if (strategy === 'ignore' || contextWindow === undefined) {
+            return request.messages;
+        }
+
+        const maxTokens = resolveMaxTokensAndTemperature(model, options).maxTokens ?? 0;
+        const budget = contextWindow - maxTokens;
+        const promptTokens = countMessageTokens(request.messages, model, request.tools);
+        if (promptTokens <= budget) {
+            return request.messages;
+        }
+
+        const trimmed = strategy === 'trim'
+            ? trimMessagesToFit(request.messages, model, budget, request.tools)
+            : undefined;
+        if (!trimmed) {
+            throw new ContextLengthExceededError({ model, promptTokens, maxTokens, contextWindow });
+        }
+        return trimmed;
     }
 
     /**
@@ -233,217 +959,658 @@ export class OpenAIProvider implements Provider {
         request: Request,
         options: ExecutionOptions = {}
     ): Promise<ProviderResponse> {
-        const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
-        
-        if (!apiKey) {
-            throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
+        const responseFormat = resolveResponseFormat(request);
+        let response = await this.executeOnce(request, options);
+        if (!expectsStructuredOutput(request, responseFormat)) {
+            return response;
         }
 
-        // Validate key format
-        const validation = redactor.validateKey(apiKey, 'openai');
-        if (!validation.valid) {
-            throw new Error('Invalid OpenAI API key format');
+        const repairs = options.structuredOutputRepairs ?? this.config.structuredOutputRepairs ?? 1;
+        let messages = request.messages;
+        let usage = response.usage;
+        let cost = response.cost;
+        for (let attempt = 0; ; attempt++) {
+            if (response.refusal) {
+                return { ...response, usage, cost };
+            }
+            const result = parseStructuredOutput(response.content, request, responseFormat);
+            if (result.valid) {
+                return { ...response, usage, cost, parsed: result.value };
+            }
+            if (attempt >= repairs) {
+                throw new StructuredOutputValidationError(result.errors, response.content);
+            }
+            messages = buildRepairMessages(messages, response.content, result.errors);
+            response = await this.executeOnce({ ...request, messages }, options);
+            usage = addUsage(usage, response.usage);
+            cost = cost !== undefined && response.cost !== undefined ? cost + response.cost : cost ?? response.cost;
         }
+    }
 
-        try {
-            const clientOptions: ConstructorParameters<typeof OpenAI>[0] = { apiKey };
-            const proxyUrl = getProxyUrl();
-            if (proxyUrl) {
-                clientOptions.fetch = createProxyFetch(proxyUrl);
+    /**
+     * Send a single request to the configured backend
+     */
+    private async executeOnce(
+        request: Request,
+        options: ExecutionOptions
+    ): Promise<ProviderResponse> {
+        const apiKey = this.resolveApiKey(options);
+        const policy = resolveRetryPolicy(options.retries ?? this.config.retries);
+
+        if ((options.api ?? this.config.api) === 'responses') {
+            const params = this.buildResponsesParams(request, options);
+            return this.throughCache('responses', params, options, async () => {
+                const observer = this.observe('execute', 'responses', params.model as string, request, options);
+                try {
+                    const client = this.createClient(apiKey, options);
+                    const response = await withRetry(
+                        (attempt) => this.limited(request, params.model as string, options, () => {
+                            observer.request(attempt, params);
+                            return client.responses.create(params, toRequestOptions(options));
+                        }),
+                        policy,
+                        options.signal
+                    );
+                    const result = this.withCost(mapResponseToProviderResponse(response), options);
+                    observer.response(result, getResponseRequestId(response));
+                    return result;
+                } catch (error) {
+                    const failure = isAbortError(error, options.signal) ? new AbortError() : toProviderError(error);
+                    observer.error(failure);
+                    throw failure;
+                }
+            });
+        }
+
+        const params = this.buildChatParams(request, options);
+
+        return this.throughCache('chat', params, options, async () => {
+            const observer = this.observe('execute', 'chat', params.model, request, options);
+            try {
+                const client = this.createClient(apiKey, options);
+
+                const response = await withRetry(
+                    (attempt) => this.limited(request, params.model, options, () => {
+                        observer.request(attempt, params);
+                        return client.chat.completions.create(params, toRequestOptions(options));
+                    }),
+                    policy,
+                    options.signal
+                );
+
+                const result = this.withCost(mapChatCompletion(response), options);
+                observer.response(result, getResponseRequestId(response));
+                return result;
+            } catch (error) {
+                // Keep the API metadata; secrets are redacted from the message
+                const failure = isAbortError(error, options.signal) ? new AbortError() : toProviderError(error);
+                observer.error(failure);
+                throw failure;
             }
-            const client = new OpenAI(clientOptions);
+        });
+    }
 
-            const model = options.model || request.model || 'gpt-5.4';
+    /**
+     * Prompt tokens plus the output cap, which is what the API counts
+     * against the tokens-per-minute limit when a request arrives. Both are
+     * taken as sent: the messages left after `contextOverflow: 'trim'`, and
+     * the clamped cap including reasoning headroom.
+     */
+    private estimateTokens(request: Request, model: string, options: ExecutionOptions): number {
+        const messages = this.fitContextWindow(model, request, options);
+        const { maxTokens } = resolveMaxTokensAndTemperature(model, options);
+        return countMessageTokens(messages, model, request.tools) + (maxTokens ?? 0);
+    }
 
-            const messages = mapRequestMessagesToOpenAI(request);
-            const openaiTools = buildTools(request);
+    /**
+     * Run one attempt under the rate limiter, if configured, and correct
+     * its token estimate with the reported usage.
+     */
+    private async limited<T extends { usage?: { total_tokens: number } | null }>(
+        request: Request,
+        model: string,
+        options: ExecutionOptions,
+        send: () => Promise<T>
+    ): Promise<T> {
+        const limiter = this.config.rateLimiter;
+        if (!limiter) {
+            return send();
+        }
+        const permit = await limiter.acquire(
+            this.estimateTokens(request, model, options),
+            { priority: options.priority, signal: options.signal }
+        );
+        let result: T | undefined;
+        try {
+            result = await send();
+            return result;
+        } finally {
+            permit.release(result?.usage?.total_tokens);
+        }
+    }
 
-            const params: OpenAI.ChatCompletionCreateParams = {
+    /**
+     * Report a call to the configured hooks and tracer.
+     */
+    private observe(
+        operation: CallInfo['operation'],
+        api: OpenAIApi,
+        model: string,
+        request: Request,
+        options: ExecutionOptions
+    ): CallObserver {
+        return new CallObserver(
+            {
+                operation,
+                api,
                 model,
-                messages,
-                ...(request.responseFormat != null ? { response_format: request.responseFormat } : {}),
-                ...(openaiTools ? { tools: openaiTools } : {}),
-            };
-            appendMaxTokensAndTemperature(model, options, params);
+                baseURL: options.baseURL ?? this.config.baseURL,
+                temperature: options.temperature,
+                maxTokens: options.maxTokens,
+                topP: options.topP,
+                seed: options.seed,
+                stop: options.stop,
+                n: options.n,
+                messages: request.messages,
+            },
+            this.config.hooks,
+            this.config.telemetry
+        );
+    }
 
-            const response = await client.chat.completions.create(params);
+    /**
+     * Serve a call from the response cache, or check the budget, send it
+     * and cache the result. A cache hit costs nothing, so it bypasses the
+     * budget check.
+     */
+    private async throughCache(
+        api: OpenAIApi,
+        params: object,
+        options: ExecutionOptions,
+        send: () => Promise<ProviderResponse>
+    ): Promise<ProviderResponse> {
+        const key = this.cacheKey(api, params, options);
+        const hit = key ? await this.readCache(key) : undefined;
+        if (hit) {
+            return hit;
+        }
+        this.resolveSpendTracker(options)?.assertWithinBudget();
+        const response = await send();
+        if (key) {
+            await this.writeCache(key, response);
+        }
+        return response;
+    }
 
-            const choice = response.choices[0];
-            const assistantMessage = choice.message;
+    private cacheKey(api: OpenAIApi, params: object, options: ExecutionOptions): string | undefined {
+        if (!this.config.cache || options.cache === false) {
+            return undefined;
+        }
+        return responseCacheKey({ api, baseURL: options.baseURL ?? this.config.baseURL, params });
+    }
 
-            return {
-                content: assistantMessage.content ?? assistantMessage.refusal ?? '',
-                model: response.model,
-                usage: response.usage
-                    ? {
-                        inputTokens: response.usage.prompt_tokens,
-                        outputTokens: response.usage.completion_tokens,
-                    }
-                    : undefined,
-                toolCalls: choice.message.tool_calls
-                    ?.filter((tc) => tc.type === 'function')
-                    .map((tc) => ({
-                        id: tc.id,
-                        type: 'function' as const,
-                        function: {
-                            name: (tc as any).function.name,
-                            arguments: (tc as any).function.arguments,
-                        },
-                    })),
-            };
-        } catch (error) {
-            // Sanitize error to remove any API keys from error messages
-            // Use spotclean for comprehensive error sanitization
-            throw createSafeError(error as Error, { provider: 'openai' });
+    private async readCache(key: string): Promise<ProviderResponse | undefined> {
+        try {
+            const hit = await this.config.cache?.store.get(key);
+            return hit ? { ...hit, cost: 0, cached: true } : undefined;
+        } catch {
+            // An unavailable store degrades to an uncached call
+            return undefined;
         }
     }
 
+    private async writeCache(key: string, response: ProviderResponse): Promise<void> {
+        const cache = this.config.cache;
+        if (!cache) {
+            return;
+        }
+        // Cost belongs to the call that paid for it, not to later hits
+        const value = { ...response };
+        delete value.cost;
+        delete value.cached;
+        try {
+            await cache.store.set(key, value, cache.ttlMs);
+        } catch {
+            // The response is still good; it just won't be served from cache
+        }
+    }
+
+    private resolveSpendTracker(options: ExecutionOptions): SpendTracker | undefined {
+        return options.spendTracker ?? this.config.spendTracker;
+    }
+
     /**
-     * Execute a request with streaming response
+     * Estimate the cost of a call and add it to the spend tracker.
      */
-    async *executeStream(
-        request: Request,
-        options: ExecutionOptions = {}
-    ): AsyncIterable<StreamChunk> {
-        const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
-        
-        if (!apiKey) {
-            throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
+    private recordCost(usage: Usage, model: string, options: ExecutionOptions, priceMultiplier = 1): number | undefined {
+        const estimate = estimateCost(usage, model, this.config.pricing);
+        const cost = estimate !== undefined ? estimate * priceMultiplier : undefined;
+        if (cost !== undefined) {
+            this.resolveSpendTracker(options)?.record(cost);
         }
+        return cost;
+    }
 
-        // Validate key format
-        const validation = redactor.validateKey(apiKey, 'openai');
-        if (!validation.valid) {
-            throw new Error('Invalid OpenAI API key format');
+    private withCost(response: ProviderResponse, options: ExecutionOptions, priceMultiplier = 1): ProviderResponse {
+        const cost = response.usage
+            ? this.recordCost(response.usage, response.model, options, priceMultiplier)
+            : undefined;
+        return cost !== undefined ? { ...response, cost } : response;
+    }
+
+    /**
+     * Call the model and run its tool calls through `options.handlers`
+     * until it answers without calling a tool.
+     */
+    runTools(request: Request, options: RunToolsOptions): Promise<RunToolsResult> {
+        return runTools(this, request, options);
+    }
+
+    /**
+     * Streaming `runTools` over `executeStream`.
+     */
+    runToolsStream(request: Request, options: RunToolsOptions): AsyncGenerator<RunToolsStreamEvent, RunToolsResult> {
+        return runToolsStream(this, request, options);
+    }
+
+    /**
+     * Submit requests as a Batch API job. Each line's body is exactly what
+     * `execute` would send with the same options, for the configured API.
+     */
+    async submitBatch(requests: Array<Request | BatchItem>, options: BatchOptions = {}): Promise<BatchJob> {
+        const apiKey = this.resolveApiKey(options);
+        const policy = resolveRetryPolicy(options.retries ?? this.config.retries);
+        this.resolveSpendTracker(options)?.assertWithinBudget();
+
+        const responses = (options.api ?? this.config.api) === 'responses';
+        const url: BatchEndpoint = responses ? '/v1/responses' : '/v1/chat/completions';
+        // `metadata` labels the batch here, not each request
+        const requestOptions: ExecutionOptions = { ...options, metadata: undefined };
+        const lines = toBatchItems(requests).map(({ customId, request }): BatchLine => ({
+            custom_id: customId,
+            method: 'POST',
+            url,
+            body: responses
+                ? this.buildResponsesParams(request, requestOptions)
+                : this.buildChatParams(request, requestOptions),
+        }));
+
+        try {
+            return await createBatch(this.createClient(apiKey, options), lines, url, options, policy);
+        } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw new AbortError();
+            }
+            throw toProviderError(error);
         }
+    }
+
+    /**
+     * Poll a batch until it finishes and map its output and error files to
+     * results by `customId`. Also resumes a batch submitted earlier, e.g.
+     * by a process that has since exited.
+     */
+    async waitForBatch(batchId: string, options: BatchOptions = {}): Promise<BatchResult> {
+        const apiKey = this.resolveApiKey(options);
+        const policy = resolveRetryPolicy(options.retries ?? this.config.retries);
 
         try {
-            const clientOptions: ConstructorParameters<typeof OpenAI>[0] = { apiKey };
-            const proxyUrl = getProxyUrl();
-            if (proxyUrl) {
-                clientOptions.fetch = createProxyFetch(proxyUrl);
+            const client = this.createClient(apiKey, options);
+            const batch = await pollBatch(client, batchId, options, policy);
+            const results = await readBatchResults(client, batch, (body) => this.withCost(
+                batch.endpoint === '/v1/responses' ? mapResponseToProviderResponse(body) : mapChatCompletion(body),
+                options,
+                BATCH_PRICE_MULTIPLIER
+            ), options, policy);
+            return { batch, results };
+        } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw new AbortError();
             }
-            const client = new OpenAI(clientOptions);
+            throw toProviderError(error);
+        }
+    }
 
-            const model = options.model || request.model || 'gpt-5.4';
+    /**
+     * Submit a batch and wait for it. Results are in input order.
+     */
+    async runBatch(requests: Array<Request | BatchItem>, options: BatchOptions = {}): Promise<BatchResult> {
+        const items = toBatchItems(requests);
+        const job = await this.submitBatch(items, options);
+        const result = await this.waitForBatch(job.id, options);
+        const order = new Map(items.map((item, index) => [item.customId, index]));
+        result.results.sort((a, b) => (order.get(a.customId) ?? items.length) - (order.get(b.customId) ?? items.length));
+        return result;
+    }
 
-            const messages = mapRequestMessagesToOpenAI(request);
-            const openaiTools = buildTools(request);
+    /**
+     * Embed one or more texts. Inputs are split into requests under the
+     * endpoint's item and token limits; vectors come back in input order.
+     */
+    embed(
+        input: string | string[],
+        options: EmbedOptions & { encodingFormat: 'base64' }
+    ): Promise<EmbeddingResponse<Float32Array>>;
+    embed(input: string | string[], options?: EmbedOptions): Promise<EmbeddingResponse>;
+    async embed(
+        input: string | string[],
+        options: EmbedOptions = {}
+    ): Promise<EmbeddingResponse<number[] | Float32Array>> {
+        const apiKey = this.resolveApiKey(options);
+        const policy = resolveRetryPolicy(options.retries ?? this.config.retries);
+        const model = options.model || DEFAULT_EMBEDDING_MODEL;
+        const batches = batchEmbeddingInputs(typeof input === 'string' ? [input] : input, model, options);
 
+        const embeddings: Array<number[] | Float32Array> = [];
+        let responseModel = model;
+        let inputTokens = 0;
+        let cost: number | undefined;
+        try {
+            const client = this.createClient(apiKey, options);
+            for (const batch of batches) {
+                this.resolveSpendTracker(options)?.assertWithinBudget();
+                const response = await withRetry(
+                    () => client.embeddings.create(
+                        {
+                            model,
+                            input: batch,
+                            ...(options.dimensions !== undefined ? { dimensions: options.dimensions } : {}),
+                            // Without a format the SDK fetches base64 and decodes it to number[] itself
+                            ...(options.encodingFormat === 'base64' ? { encoding_format: 'base64' as const } : {}),
+                        },
+                        toRequestOptions(options)
+                    ),
+                    policy,
+                    options.signal
+                );
+
+                for (const item of [...response.data].sort((a, b) => a.index - b.index)) {
+                    embeddings.push(options.encodingFormat === 'base64'
+                        ? decodeEmbedding(item.embedding as unknown as string)
+                        : item.embedding);
+                }
+                const tokens = response.usage?.prompt_tokens ?? 0;
+                const batchCost = this.recordCost({ inputTokens: tokens, outputTokens: 0 }, response.model, options);
+                cost = batchCost !== undefined ? (cost ?? 0) + batchCost : cost;
+                inputTokens += tokens;
+                responseModel = response.model;
+            }
+        } catch (error) {
+            if (isAbortError(error, options.signal)) {
+                throw new AbortError();
+            }
+            throw toProviderError(error);
+        }
+
+        return {
+            embeddings,
+            model: responseModel,
+            usage: { inputTokens, outputTokens: 0, totalTokens: inputTokens },
+            ...(cost !== undefined ? { cost } : {}),
+        };
+    }
+
+    /**
+     * Execute a request with streaming response
+     */
+    async *executeStream(
+        request: Request,
+        options: ExecutionOptions = {}
+    ): AsyncIterable<StreamChunk> {
+        const apiKey = this.resolveApiKey(options);
+        if ((options.n ?? 1) > 1) {
+            throw new RangeError('n > 1 is not supported when streaming; use execute');
+        }
+
+        const api: OpenAIApi = options.api ?? this.config.api ?? 'chat';
+        let model: string;
+        let sent: object;
+        let cacheKey: string | undefined;
+        let openStream: (client: OpenAI) => Promise<AsyncIterable<StreamChunk>>;
+        if (api === 'responses') {
+            const base = this.buildResponsesParams(request, options);
+            const params: OpenAI.Responses.ResponseCreateParamsStreaming = { ...base, stream: true };
+            model = params.model as string;
+            sent = params;
+            // Keyed like `execute`, so streamed and non-streamed calls share entries
+            cacheKey = this.cacheKey('responses', base, options);
+            openStream = async (client) =>
+                mapResponsesStream(await client.responses.create(params, toRequestOptions(options)));
+        } else {
+            const base = this.buildChatParams(request, options);
             const params: OpenAI.ChatCompletionCreateParamsStreaming = {
-                model,
-                messages,
+                ...base,
                 stream: true,
                 stream_options: { include_usage: true },
-                ...(request.responseFormat != null ? { response_format: request.responseFormat } : {}),
-                ...(openaiTools ? { tools: openaiTools } : {}),
             };
-            appendMaxTokensAndTemperature(model, options, params);
-
-            const stream = await client.chat.completions.create(params);
-
-            // Track tool calls being built
-            const toolCallsInProgress: Map<number, { id: string; name: string; arguments: string }> = new Map();
+            model = params.model;
+            sent = params;
+            cacheKey = this.cacheKey('chat', base, options);
+            openStream = async (client) =>
+                mapChatCompletionStream(await client.chat.completions.create(params, toRequestOptions(options)));
+        }
 
-            for await (const chunk of stream) {
-                const delta = chunk.choices[0]?.delta;
-                
-                if (delta?.content) {
-                    yield { type: 'text', text: delta.content };
-                }
+        const hit = cacheKey ? await this.readCache(cacheKey) : undefined;
+        if (hit) {
+            yield* responseToStreamChunks(hit);
+            return;
+        }
+        this.resolveSpendTracker(options)?.assertWithinBudget();
+        const observer = this.observe('executeStream', api, model, request, options);
 
-                if (delta?.refusal) {
-                    yield { type: 'text', text: delta.refusal };
-                }
+        // Output seen so far, for the final response and to report usage
+        // if the stream stops early
+        const collector = new StreamResponseCollector(model);
+        let usage: Usage | undefined;
+        let started = false;
+        let finished = false;
+        const settleUsage = (): Usage | undefined => {
+            if (!usage && started) {
+                const partial = collector.response();
+                const output = partial.content + (partial.refusal ?? '') +
+                    (partial.toolCalls ?? []).map((call) => call.function.arguments).join('');
+                usage = {
+                    inputTokens: countMessageTokens(request.messages, model, request.tools),
+                    outputTokens: countTokens(output, model),
+                };
+                this.recordCost(usage, model, options);
+            }
+            return usage;
+        };
 
-                if (delta?.tool_calls) {
-                    for (const tc of delta.tool_calls) {
-                        const index = tc.index;
-                        
-                        if (tc.id) {
-                            // New tool call starting
-                            toolCallsInProgress.set(index, {
-                                id: tc.id,
-                                name: tc.function?.name || '',
-                                arguments: '',
-                            });
-                            yield {
-                                type: 'tool_call_start',
-                                toolCall: {
-                                    id: tc.id,
-                                    index,
-                                    name: tc.function?.name,
-                                },
-                            };
-                        }
+        try {
+            const client = this.createClient(apiKey, options);
 
-                        if (tc.function?.name) {
-                            const existing = toolCallsInProgress.get(index);
-                            if (existing) {
-                                existing.name = tc.function.name;
-                            } else {
-                                toolCallsInProgress.set(index, {
-                                    id: tc.id || '',
-                                    name: tc.function.name,
-                                    arguments: '',
-                                });
+            const policy = resolveRetryPolicy(options.retries ?? this.config.retries);
+            const limiter = this.config.rateLimiter;
+            const estimate = limiter ? this.estimateTokens(request, model, options) : 0;
+            for (let attempt = 0; ; attempt++) {
+                const permit = await limiter?.acquire(estimate, { priority: options.priority, signal: options.signal });
+                try {
+                    observer.request(attempt, sent);
+                    for await (const received of await openStream(client)) {
+                        // Once a chunk has reached the caller the attempt can't be replayed
+                        started = true;
+                        let chunk = received;
+                        if (chunk.type === 'usage' && chunk.usage) {
+                            usage = chunk.usage;
+                            const cost = this.recordCost(chunk.usage, model, options);
+                            if (cost !== undefined) {
+                                chunk = { ...chunk, cost };
                             }
                         }
-                        
-                        if (tc.function?.arguments) {
-                            const toolCall = toolCallsInProgress.get(index);
-                            if (toolCall) {
-                                toolCall.arguments += tc.function.arguments;
-                                yield {
-                                    type: 'tool_call_delta',
-                                    toolCall: {
-                                        index,
-                                        argumentsDelta: tc.function.arguments,
-                                    },
-                                };
+                        // The SDK ends an aborted stream quietly rather than
+                        // throwing, so its truncated output must not pass as done
+                        if (chunk.type === 'done' && options.signal?.aborted) {
+                            throw new AbortError();
+                        }
+                        collector.add(chunk);
+                        if (chunk.type === 'done') {
+                            chunk = { ...chunk, response: collector.response() };
+                            // Before yielding, in case the consumer stops at `done`
+                            if (cacheKey) {
+                                await this.writeCache(cacheKey, chunk.response as ProviderResponse);
                             }
                         }
+                        observer.chunk(chunk);
+                        if (chunk.type === 'done') {
+                            observer.response(chunk.response as ProviderResponse);
+                        }
+                        yield chunk;
                     }
-                }
-
-                // Check for finish reason to emit tool_call_end
-                if (chunk.choices[0]?.finish_reason === 'tool_calls') {
-                    for (const [index, toolCall] of toolCallsInProgress) {
-                        yield {
-                            type: 'tool_call_end',
-                            toolCall: {
-                                id: toolCall.id,
-                                index,
-                                name: toolCall.name,
-                            },
-                        };
+                    if (options.signal?.aborted) {
+                        throw new AbortError();
                     }
-                }
-
-                // Usage comes at the end
-                if (chunk.usage) {
-                    yield {
-                        type: 'usage',
-                        usage: {
-                            inputTokens: chunk.usage.prompt_tokens,
-                            outputTokens: chunk.usage.completion_tokens,
-                        },
-                    };
+                    finished = true;
+                    break;
+                } catch (error) {
+                    if (started || options.signal?.aborted || attempt >= policy.retries || !isRetryableError(error)) {
+                        throw error;
+                    }
+                    permit?.release();
+                    await sleep(computeRetryDelayMs(error, attempt, policy), options.signal);
+                } finally {
+                    // Held for the whole stream; the slot frees when it ends
+                    permit?.release(usage && usage.inputTokens + usage.outputTokens);
                 }
             }
-
-            yield { type: 'done' };
         } catch (error) {
-            throw createSafeError(error as Error, { provider: 'openai' });
+            const failure = isAbortError(error, options.signal)
+                ? new AbortError({ text: collector.response().content, usage: settleUsage() })
+                : toProviderError(error);
+            observer.error(failure);
+            throw failure;
+        } finally {
+            // Reached when the consumer breaks out of the loop too: the
+            // generators above are closed, which aborts the HTTP request
+            if (!finished) {
+                const partial = { text: collector.response().content, usage: settleUsage() };
+                observer.error(new AbortError(partial));
+                try {
+                    if (started) {
+                        options.onStreamStopped?.(partial);
+                    }
+                } catch {
+                    // A reporting callback must not replace the stream's own outcome
+                }
+            }
         }
     }
 }
 
+export type { ConnectionPoolOptions } from './pool.js';
+export {
+    AbortError,
+    AuthenticationError,
+    BatchFailedError,
+    BudgetExceededError,
+    ContentFilterError,
+    ContextLengthExceededError,
+    OpenAIProviderError,
+    RateLimitError,
+    ServerError,
+    StructuredOutputValidationError,
+    TimeoutError,
+    ToolIterationLimitError,
+    UnsupportedContentError,
+    UnsupportedFeatureError,
+    type OpenAIErrorDetails,
+} from './errors.js';
+export { runTools, runToolsStream } from './run-tools.js';
+export type {
+    RunToolsOptions,
+    RunToolsResult,
+    RunToolsStreamEvent,
+    ToolHandler,
+    ToolHandlerContext,
+    ToolResult,
+    ToolRunStep,
+} from './run-tools.js';
+export type {
+    JsonSchema,
+    OutputValidator,
+    StructuredOutputFormat,
+    ValidationResult,
+} from './structured.js';
+export { toStrictJsonSchema } from './structured.js';
+export type {
+    ContentPart,
+    ContentPartType,
+    TextContentPart,
+    ImageContentPart,
+    AudioContentPart,
+    FileContentPart,
+} from './content.js';
+export { getSupportedContentTypes } from './content.js';
+export { validateSamplingOptions, type TokenLogprob } from './sampling.js';
+export {
+    DEFAULT_MODEL,
+    getModelCapabilities,
+    getReasoningHeadroom,
+    ModelRegistry,
+    modelRegistry,
+    registerModel,
+    resolveModel,
+} from './models.js';
+export type { ModelCapabilities, ModelDefinition, ModelFeature, ReasoningEffort } from './models.js';
+export {
+    countTokens,
+    countMessageTokens,
+    countToolTokens,
+    getEncoding,
+    getEncodingName,
+    getContextWindow,
+    trimMessagesToFit,
+} from './tokens.js';
+export { createCassetteFetch, hashRequestBody } from './cassette.js';
+export { startMockOpenAIServer } from './mock-server.js';
+export type { MockOpenAIServer, MockOpenAIServerOptions, MockReply, MockRequest, MockUsage } from './mock-server.js';
+export type { Cassette, CassetteEntry, CassetteMode, CassetteOptions } from './cassette.js';
+export type {
+    BatchEndpoint,
+    BatchItem,
+    BatchItemResult,
+    BatchJob,
+    BatchLine,
+    BatchOptions,
+    BatchResult,
+    BatchStatus,
+} from './batch.js';
+export type {
+    CallInfo,
+    ErrorEvent,
+    ExecutionHooks,
+    RequestEvent,
+    ResponseEvent,
+    StreamChunkEvent,
+    TelemetryAttributeValue,
+    TelemetryOptions,
+    TelemetrySpan,
+    TelemetryTracer,
+} from './telemetry.js';
+export { FallbackProvider, isFallbackError } from './fallback.js';
+export type {
+    FallbackFailure,
+    FallbackProviderConfig,
+    FallbackRoute,
+    FallbackTarget,
+    RouteContext,
+    ServedBy,
+} from './fallback.js';
+export { RateLimiter } from './rate-limit.js';
+export type { HeaderSource, RateLimiterOptions, RateLimiterState, RateLimitPermit } from './rate-limit.js';
+export { batchEmbeddingInputs, decodeEmbedding } from './embeddings.js';
+export type { EmbeddingEncodingFormat, EmbeddingResponse, EmbedOptions } from './embeddings.js';
+export { FileCacheStore, MemoryCacheStore, responseCacheKey } from './cache.js';
+export type { CacheStore, ResponseCacheOptions } from './cache.js';
+export { estimateCost, getModelPricing, SpendTracker, type ModelPricing } from './cost.js';
+export { isRetryableError, DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry.js';
+
 /**
  * Create a new OpenAI provider instance
  */
-export function createOpenAIProvider(): OpenAIProvider {
-    return new OpenAIProvider();
+export function createOpenAIProvider(config: OpenAIProviderConfig = {}): OpenAIProvider {
+    return new OpenAIProvider(config);
 }
 
 /**
@@ -0,0 +1,498 @@
+/**
+ * In-process mock OpenAI server for integration tests.
+ *
+ * Serves `/v1/chat/completions` over real HTTP, as JSON or SSE depending on
+ * the request's `stream` flag, answering each request with the next
+ * scripted reply. Point `OpenAIProvider` at `server.baseURL` to exercise the
+ * real SDK, retries and streaming without network access.
+ *
+ * Also stands in for the Files and Batches endpoints: each line of a
+ * submitted batch is answered with the next scripted reply.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface MockUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** Part of `outputTokens`, reported as `completion_tokens_details.reasoning_tokens` */
+    reasoningTokens?: number;
+}
+
+/**
+ * A scripted reply. Successful replies may set `usage` (defaults to a rough
+ * estimate) and are streamed in `chunkSize`-character pieces.
+ */
+export type MockReply =
+    | { type: 'text'; text: string; finishReason?: 'stop' | 'length' | 'content_filter'; usage?: MockUsage }
+    | {
+        type: 'tool_calls';
+        /** `arguments` may be an object; it is JSON-encoded */
+        toolCalls: Array<{ id?: string; name: string; arguments: string | Record<string, unknown> }>;
+        text?: string;
+        usage?: MockUsage;
+    }
+    | { type: 'refusal'; refusal: string; usage?: MockUsage }
+    | {
+        type: 'error';
+        status: number;
+        message?: string;
+        code?: string;
+        /** Sent as `Retry-After`, in seconds */
+        retryAfter?: number;
+        headers?: Record<string, string>;
+    }
+    /**
+     * Drops the connection. Streaming requests first receive `text`, so the
+     * failure happens mid-stream.
+     */
+    | { type: 'disconnect'; text?: string };
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    headers: Record<string, string | string[] | undefined>;
+    body: any;
+}
+
+export interface MockOpenAIServerOptions {
+    /** Replies served in order, one per request */
+    replies?: MockReply[];
+    /** Characters per streamed content or arguments chunk. Defaults to 8. */
+    chunkSize?: number;
+    /** Defaults to an ephemeral port */
+    port?: number;
+    /** Status polls that report a batch `in_progress` before it completes. Defaults to 1. */
+    batchPolls?: number;
+}
+
+export interface MockOpenAIServer {
+    /** Base URL including `/v1`, for `OpenAIProviderConfig.baseURL` */
+    readonly baseURL: string;
+    /** Requests received so far */
+    readonly requests: MockRequest[];
+    /** Queue more replies */
+    enqueue(...replies: MockReply[]): void;
+    close(): Promise<void>;
+}
+
+const DEFAULT_CHUNK_SIZE = 8;
+
+function split(text: string, size: number): string[] {
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        pieces.push(text.slice(i, i + size));
+    }
+    return pieces;
+}
+
+function estimateUsage(body: any, output: string): MockUsage {
+    return {
+        inputTokens: Math.ceil(JSON.stringify(body?.messages ?? []).length / 4),
+        outputTokens: Math.ceil(output.length / 4),
+    };
+}
+
+function mapUsage(usage: MockUsage) {
+    return {
+        prompt_tokens: usage.inputTokens,
+        completion_tokens: usage.outputTokens,
+        total_tokens: usage.inputTokens + usage.outputTokens,
+        ...(usage.reasoningTokens !== undefined
+            ? { completion_tokens_details: { reasoning_tokens: usage.reasoningTokens } }
+            : {}),
+    };
+}
+
+type SuccessReply = Extract<MockReply, { type: 'text' | 'tool_calls' | 'refusal' }>;
+
+function toolCallsOf(reply: SuccessReply, id: string) {
+    if (reply.type !== 'tool_calls') {
+        return [];
+    }
+    return reply.toolCalls.map((call, index) => ({
+        id: call.id ?? `call_${id}_${index}`,
+        type: 'function' as const,
+        function: {
+            name: call.name,
+            arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+        },
+    }));
+}
+
+function finishReasonOf(reply: SuccessReply): string {
+    if (reply.type === 'tool_calls') {
+        return 'tool_calls';
+    }
+    return reply.type === 'text' ? reply.finishReason ?? 'stop' : 'stop';
+}
+
+function completionBody(reply: SuccessReply, body: any, id: string) {
+    const toolCalls = toolCallsOf(reply, id);
+    const content = reply.type === 'refusal' ? null : reply.text ?? null;
+    const output = (content ?? '') + toolCalls.map((call) => call.function.arguments).join('');
+    return {
+        id: `chatcmpl-${id}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: body?.model ?? 'gpt-4o',
+        choices: [{
+            index: 0,
+            message: {
+                role: 'assistant',
+                content,
+                refusal: reply.type === 'refusal' ? reply.refusal : null,
+                ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+            },
+            finish_reason: finishReasonOf(reply),
+        }],
+        usage: mapUsage(reply.usage ?? estimateUsage(body, reply.type === 'refusal' ? reply.refusal : output)),
+    };
+}
+
+function sendCompletion(res: ServerResponse, reply: SuccessReply, body: any, id: string): void {
+    res.writeHead(200, { 'content-type': 'application/json', 'x-request-id': `req_${id}` });
+    res.end(JSON.stringify(completionBody(reply, body, id)));
+}
+
+function streamCompletion(
+    res: ServerResponse,
+    reply: SuccessReply | Extract<MockReply, { type: 'disconnect' }>,
+    body: any,
+    id: string,
+    chunkSize: number
+): void {
+    const base = { id: `chatcmpl-${id}`, object: 'chat.completion.chunk', created: 0, model: body?.model ?? 'gpt-4o' };
+    const send = (choice: Record<string, unknown> | null, extra: Record<string, unknown> = {}) => {
+        res.write(`data: ${JSON.stringify({ ...base, choices: choice ? [{ index: 0, ...choice }] : [], ...extra })}\n\n`);
+    };
+
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'x-request-id': `req_${id}` });
+    send({ delta: { role: 'assistant', content: '' } });
+
+    if (reply.type === 'disconnect') {
+        for (const piece of split(reply.text ?? '', chunkSize)) {
+            send({ delta: { content: piece } });
+        }
+        // Close without finishing the chunked body
+        res.socket?.end();
+        return;
+    }
+
+    let output = '';
+    if (reply.type === 'refusal') {
+        for (const piece of split(reply.refusal, chunkSize)) {
+            send({ delta: { refusal: piece } });
+        }
+        output = reply.refusal;
+    } else {
+        for (const piece of split(reply.text ?? '', chunkSize)) {
+            send({ delta: { content: piece } });
+        }
+        output = reply.text ?? '';
+        toolCallsOf(reply, id).forEach((call, index) => {
+            send({
+                delta: { tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } }] },
+            });
+            for (const piece of split(call.function.arguments, chunkSize)) {
+                send({ delta: { tool_calls: [{ index, function: { arguments: piece } }] } });
+            }
+            output += call.function.arguments;
+        });
+    }
+
+    send({ delta: {}, finish_reason: finishReasonOf(reply) });
+    if (body?.stream_options?.include_usage) {
+        send(null, { usage: mapUsage(reply.usage ?? estimateUsage(body, output)) });
+    }
+    res.end('data: [DONE]\n\n');
+}
+
+function errorBody(reply: Extract<MockReply, { type: 'error' }>) {
+    return {
+        error: {
+            message: reply.message ?? `Mock error ${reply.status}`,
+            type: reply.status >= 500 ? 'server_error' : 'invalid_request_error',
+            code: reply.code ?? null,
+            param: null,
+        },
+    };
+}
+
+function sendError(res: ServerResponse, reply: Extract<MockReply, { type: 'error' }>, id: string): void {
+    res.writeHead(reply.status, {
+        'content-type': 'application/json',
+        'x-request-id': `req_${id}`,
+        ...(reply.retryAfter !== undefined ? { 'retry-after': String(reply.retryAfter) } : {}),
+        ...reply.headers,
+    });
+    res.end(JSON.stringify(errorBody(reply)));
+}
+
+function sendJson(res: ServerResponse, value: unknown): void {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(value));
+}
+
+async function readBody(req: IncomingMessage): Promise<{ raw: string; body: any }> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    try {
+        return { raw, body: raw ? JSON.parse(raw) : undefined };
+    } catch {
+        return { raw, body: raw };
+    }
+}
+
+interface MockBatch {
+    id: string;
+    endpoint: string;
+    inputFileId: string;
+    outputFileId?: string;
+    errorFileId?: string;
+    /** Validation errors; a batch with any fails */
+    errors: string[];
+    counts: { total: number; completed: number; failed: number };
+    metadata: Record<string, string> | null;
+    createdAt: number;
+    polls: number;
+}
+
+/**
+ * Files and Batches endpoints. Batch lines are answered when the batch is
+ * created; polling only reveals the result.
+ */
+class MockBatchApi {
+    private readonly files = new Map<string, string>();
+    private readonly batches = new Map<string, MockBatch>();
+
+    constructor(
+        private readonly nextReply: () => MockReply | undefined,
+        private readonly batchPolls: number
+    ) {}
+
+    private addFile(content: string): string {
+        const id = `file-${this.files.size + 1}`;
+        this.files.set(id, content);
+        return id;
+    }
+
+    async upload(req: IncomingMessage, raw: string, res: ServerResponse): Promise<void> {
+        const form = await new Response(raw, {
+            headers: { 'content-type': String(req.headers['content-type'] ?? '') },
+        }).formData();
+        const file = form.get('file');
+        const content = typeof file === 'string' ? file : await (file as Blob | null)?.text() ?? '';
+        const id = this.addFile(content);
+        sendJson(res, {
+            id,
+            object: 'file',
+            bytes: content.length,
+            created_at: Math.floor(Date.now() / 1000),
+            filename: file && typeof file !== 'string' ? (file as File).name : 'upload',
+            purpose: form.get('purpose'),
+            status: 'processed',
+        });
+    }
+
+    content(fileId: string, res: ServerResponse): boolean {
+        const content = this.files.get(fileId);
+        if (content === undefined) {
+            return false;
+        }
+        res.writeHead(200, { 'content-type': 'application/octet-stream' });
+        res.end(content);
+        return true;
+    }
+
+    create(body: any, res: ServerResponse): boolean {
+        const input = this.files.get(body?.input_file_id);
+        if (input === undefined) {
+            return false;
+        }
+        const batch: MockBatch = {
+            id: `batch_${this.batches.size + 1}`,
+            endpoint: body.endpoint,
+            inputFileId: body.input_file_id,
+            errors: [],
+            counts: { total: 0, completed: 0, failed: 0 },
+            metadata: body.metadata ?? null,
+            createdAt: Math.floor(Date.now() / 1000),
+            polls: 0,
+        };
+        this.batches.set(batch.id, batch);
+
+        const lines = input.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+        for (const [index, line] of lines.entries()) {
+            if (line.url !== '/v1/chat/completions' || line.url !== batch.endpoint) {
+                batch.errors.push(`Line ${index + 1}: the mock server only batches /v1/chat/completions`);
+            }
+        }
+        if (!batch.errors.length) {
+            this.run(batch, lines);
+        }
+        sendJson(res, this.toBatchObject(batch, 'validating'));
+        return true;
+    }
+
+    private run(batch: MockBatch, lines: any[]): void {
+        const output: string[] = [];
+        const errors: string[] = [];
+        for (const line of lines) {
+            const id = `${batch.id}_${output.length + errors.length + 1}`;
+            const reply = this.nextReply() ??
+                { type: 'error', status: 400, message: 'No scripted reply left', code: 'mock_exhausted' };
+            if (reply.type === 'error' || reply.type === 'disconnect') {
+                const error = reply.type === 'error'
+                    ? reply
+                    : { type: 'error' as const, status: 500, message: 'Connection dropped' };
+                errors.push(JSON.stringify({
+                    id: `batch_req_${id}`,
+                    custom_id: line.custom_id,
+                    response: { status_code: error.status, request_id: `req_${id}`, body: errorBody(error) },
+                    error: null,
+                }));
+            } else {
+                output.push(JSON.stringify({
+                    id: `batch_req_${id}`,
+                    custom_id: line.custom_id,
+                    response: { status_code: 200, request_id: `req_${id}`, body: completionBody(reply, line.body, id) },
+                    error: null,
+                }));
+            }
+        }
+        batch.counts = { total: lines.length, completed: output.length, failed: errors.length };
+        if (output.length) {
+            batch.outputFileId = this.addFile(output.join('\n') + '\n');
+        }
+        if (errors.length) {
+            batch.errorFileId = this.addFile(errors.join('\n') + '\n');
+        }
+    }
+
+    retrieve(batchId: string, res: ServerResponse): boolean {
+        const batch = this.batches.get(batchId);
+        if (!batch) {
+            return false;
+        }
+        batch.polls++;
+        const status = batch.errors.length ? 'failed' : batch.polls > this.batchPolls ? 'completed' : 'in_progress';
+        sendJson(res, this.toBatchObject(batch, status));
+        return true;
+    }
+
+    private toBatchObject(batch: MockBatch, status: string) {
+        const completed = status === 'completed';
+        return {
+            id: batch.id,
+            object: 'batch',
+            endpoint: batch.endpoint,
+            errors: batch.errors.length
+                ? {
+                    object: 'list',
+                    data: batch.errors.map((message) => ({ code: 'invalid_request', message })),
+                }
+                : null,
+            input_file_id: batch.inputFileId,
+            completion_window: '24h',
+            status,
+            output_file_id: completed ? batch.outputFileId ?? null : null,
+            error_file_id: completed ? batch.errorFileId ?? null : null,
+            created_at: batch.createdAt,
+            request_counts: completed ? batch.counts : { total: batch.counts.total, completed: 0, failed: 0 },
+            metadata: batch.metadata,
+        };
+    }
+}
+
+/**
+ * Start a mock OpenAI server on localhost. Requests beyond the scripted
+ * replies get a 400 `mock_exhausted` error.
+ */
+export async function startMockOpenAIServer(options: MockOpenAIServerOptions = {}): Promise<MockOpenAIServer> {
+    const queue: MockReply[] = [...(options.replies ?? [])];
+    const requests: MockRequest[] = [];
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+
+    const batchApi = new MockBatchApi(() => queue.shift(), options.batchPolls ?? 1);
+
+    const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        const { raw, body } = await readBody(req);
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+        const id = String(requests.length);
+        const notFound = () =>
+            sendError(res, { type: 'error', status: 404, message: `Unknown endpoint ${req.method} ${path}` }, id);
+
+        const fileContent = /^\/v1\/files\/([^/]+)\/content$/.exec(path);
+        const batch = /^\/v1\/batches\/([^/]+)$/.exec(path);
+        if (req.method === 'POST' && path === '/v1/files') {
+            await batchApi.upload(req, raw, res);
+            return;
+        }
+        if (req.method === 'GET' && fileContent) {
+            if (!batchApi.content(fileContent[1], res)) notFound();
+            return;
+        }
+        if (req.method === 'POST' && path === '/v1/batches') {
+            if (!batchApi.create(body, res)) notFound();
+            return;
+        }
+        if (req.method === 'GET' && batch) {
+            if (!batchApi.retrieve(batch[1], res)) notFound();
+            return;
+        }
+
+        if (req.method !== 'POST' || path !== '/v1/chat/completions') {
+            notFound();
+            return;
+        }
+        const reply = queue.shift();
+        if (!reply) {
+            sendError(res, { type: 'error', status: 400, message: 'No scripted reply left', code: 'mock_exhausted' }, id);
+            return;
+        }
+        if (reply.type === 'error') {
+            sendError(res, reply, id);
+        } else if (reply.type === 'disconnect' && !body?.stream) {
+            res.socket?.destroy();
+        } else if (body?.stream) {
+            streamCompletion(res, reply, body, id, chunkSize);
+        } else {
+            sendCompletion(res, reply as SuccessReply, body, id);
+        }
+    };
+
+    const server = createServer((req, res) => {
+        // Malformed input (bad JSONL, multipart) is answered rather than
+        // left hanging as an unhandled rejection
+        handleRequest(req, res).catch((error: unknown) => {
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            const status = error instanceof SyntaxError || error instanceof TypeError ? 400 : 500;
+            const message = `Mock server could not handle the request: ${(error as Error)?.message ?? error}`;
+            sendError(res, { type: 'error', status, message }, String(requests.length));
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseURL: `http://127.0.0.1:${port}/v1`,
+        requests,
+        enqueue: (...replies) => {
+            queue.push(...replies);
+        },
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections();
+            server.close((error) => (error ? reject(error) : resolve()));
+        }),
+    };
+}
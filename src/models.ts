@@ -0,0 +1,302 @@
+/**
+ * Model capability registry.
+ *
+ * One table of what each model accepts: context window, output cap, and
+ * support for temperature and sampling parameters, tools, image/audio/file
+ * input, structured output, reasoning effort and verbosity. Request building
+ * consults it to drop parameters a model rejects, clamp `maxTokens`, and
+ * refuse content or features the model can't handle before a request is
+ * sent.
+ *
+ * Built-in entries match model families by prefix, so dated snapshots
+ * (e.g. `gpt-4o-2024-08-06`) resolve to their family. Fine-tuned `ft:` IDs
+ * inherit from their base model unless registered themselves.
+ */
+
+/** `reasoning_effort` levels; `none` and `xhigh` are only accepted by newer models */
+export type ReasoningEffort = 'none' | 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
+
+export interface ModelCapabilities {
+    /** Total context window (input + output) in tokens */
+    contextWindow?: number;
+    /** Largest `maxTokens` the model accepts */
+    maxOutputTokens?: number;
+    /** Accepts a custom temperature */
+    temperature: boolean;
+    /** Accepts `top_p`, penalties, `logit_bias`, logprobs and `stop` */
+    sampling: boolean;
+    /** Function/tool calling */
+    tools: boolean;
+    /** Image input */
+    vision: boolean;
+    /** Audio input */
+    audio: boolean;
+    /** File (e.g. PDF) input */
+    files: boolean;
+    /** `json_schema` response formats */
+    structuredOutput: boolean;
+    /** Accepts `reasoning_effort` */
+    reasoningEffort: boolean;
+    /** Effort levels accepted, when only some are */
+    reasoningEfforts?: ReasoningEffort[];
+    /**
+     * Effort the API applies when none is sent. Set for reasoning models,
+     * which spend hidden output tokens before answering.
+     */
+    defaultReasoningEffort?: ReasoningEffort;
+    /** Efforts at which `temperature` and sampling are accepted, when only some are */
+    samplingEfforts?: ReasoningEffort[];
+    /** Accepts `verbosity` */
+    verbosity: boolean;
+}
+
+/**
+ * A registry entry. Omitted capabilities are inherited from the base model
+ * for fine-tuned IDs, and otherwise assumed supported.
+ */
+export interface ModelDefinition extends Partial<ModelCapabilities> {
+    /** Other names that resolve to this model; the real ID is sent to the API */
+    aliases?: string[];
+}
+
+export type ModelFeature = {
+    [K in keyof ModelCapabilities]-?: ModelCapabilities[K] extends boolean ? K : never;
+}[keyof ModelCapabilities];
+
+/** Model used when neither the request nor the call options name one */
+export const DEFAULT_MODEL = 'gpt-5.4';
+
+// Models not described at all are assumed to accept everything, so custom
+// gateways and new models aren't blocked
+const UNRESTRICTED: ModelCapabilities = {
+    temperature: true,
+    sampling: true,
+    tools: true,
+    vision: true,
+    audio: true,
+    files: true,
+    structuredOutput: true,
+    reasoningEffort: true,
+    verbosity: true,
+};
+
+const CHAT: ModelDefinition = {
+    temperature: true,
+    sampling: true,
+    tools: true,
+    vision: true,
+    audio: false,
+    files: true,
+    structuredOutput: true,
+    reasoningEffort: false,
+    verbosity: false,
+};
+
+const TEXT_ONLY: ModelDefinition = { ...CHAT, vision: false, files: false, structuredOutput: false };
+
+const REASONING: ModelDefinition = {
+    ...CHAT,
+    temperature: false,
+    sampling: false,
+    reasoningEffort: true,
+    reasoningEfforts: ['low', 'medium', 'high'],
+    defaultReasoningEffort: 'medium',
+};
+
+const GPT_5: ModelDefinition = {
+    ...REASONING,
+    reasoningEfforts: ['minimal', 'low', 'medium', 'high'],
+    verbosity: true,
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+};
+
+// Output tokens reserved for hidden reasoning at each effort, so it doesn't
+// eat into the visible `maxTokens`
+const REASONING_HEADROOM: Record<ReasoningEffort, number> = {
+    none: 0,
+    minimal: 1_024,
+    low: 4_096,
+    medium: 8_192,
+    high: 16_384,
+    xhigh: 32_768,
+};
+
+const AUDIO: ModelDefinition = { ...CHAT, vision: false, audio: true, files: false, structuredOutput: false };
+
+/** First match wins, so more specific prefixes come first. */
+const BUILT_IN_MODELS: Array<[RegExp, ModelDefinition]> = [
+    [/^(gpt-4o|gpt-4o-mini)-(audio|realtime)/, { ...AUDIO, contextWindow: 128_000, maxOutputTokens: 16_384 }],
+    [/^gpt-audio/, { ...AUDIO, contextWindow: 128_000, maxOutputTokens: 16_384 }],
+    [/^gpt-5-chat/, { ...CHAT, contextWindow: 128_000, maxOutputTokens: 16_384 }],
+    // GPT-5.1 and later don't reason unless asked, and accept sampling
+    // parameters only while they don't
+    [/^gpt-5\.\d/, {
+        ...GPT_5,
+        temperature: true,
+        sampling: true,
+        samplingEfforts: ['none'],
+        reasoningEfforts: ['none', 'low', 'medium', 'high', 'xhigh'],
+        defaultReasoningEffort: 'none',
+    }],
+    [/^gpt-5/, GPT_5],
+    [/^gpt-4\.1/, { ...CHAT, contextWindow: 1_047_576, maxOutputTokens: 32_768 }],
+    [/^gpt-4\.5/, { ...CHAT, contextWindow: 128_000, maxOutputTokens: 16_384 }],
+    [/^(gpt-4o|chatgpt-4o)/, { ...CHAT, contextWindow: 128_000, maxOutputTokens: 16_384 }],
+    [/^gpt-4-turbo/, { ...TEXT_ONLY, vision: true, contextWindow: 128_000, maxOutputTokens: 4_096 }],
+    [/^gpt-4-(1106|0125)/, { ...TEXT_ONLY, contextWindow: 128_000, maxOutputTokens: 4_096 }],
+    [/^gpt-4/, { ...TEXT_ONLY, contextWindow: 8_192, maxOutputTokens: 8_192 }],
+    [/^gpt-3\.5-turbo/, { ...TEXT_ONLY, contextWindow: 16_385, maxOutputTokens: 4_096 }],
+    [/^o1-(mini|preview)/, {
+        ...TEXT_ONLY,
+        temperature: false,
+        sampling: false,
+        tools: false,
+        defaultReasoningEffort: 'medium',
+        contextWindow: 128_000,
+        maxOutputTokens: 65_536,
+    }],
+    [/^o3-mini/, { ...REASONING, vision: false, files: false, contextWindow: 200_000, maxOutputTokens: 100_000 }],
+    [/^o\d/, { ...REASONING, contextWindow: 200_000, maxOutputTokens: 100_000 }],
+    // Newer GPT models default to unrestricted until listed
+    [/^gpt/, {}],
+];
+
+/**
+ * Normalize a model ID for lookups: lowercase, and resolve fine-tuned
+ * `ft:<base>:<org>:<suffix>:<id>` IDs to their base model.
+ */
+export function baseModelName(model: string): string {
+    const m = model.trim().toLowerCase();
+    return m.startsWith('ft:') ? m.slice(3).split(':')[0] : m;
+}
+
+/**
+ * Lookup table of model capabilities. Entries registered later take
+ * precedence over earlier ones and over the built-in families.
+ */
+export class ModelRegistry {
+    private readonly models = new Map<string, ModelDefinition>();
+    private readonly families: Array<[RegExp, ModelDefinition]>;
+    private readonly aliases = new Map<string, string>();
+
+    constructor(families: Array<[RegExp, ModelDefinition]> = BUILT_IN_MODELS) {
+        this.families = [...families];
+    }
+
+    /**
+     * Describe a model by exact ID, or a family by pattern (matched against
+     * the lowercased base model name). Aliases need an exact ID.
+     */
+    register(model: string | RegExp, definition: ModelDefinition = {}): this {
+        if (model instanceof RegExp) {
+            this.families.unshift([model, definition]);
+            return this;
+        }
+        const id = model.trim().toLowerCase();
+        this.models.set(id, definition);
+        for (const alias of definition.aliases ?? []) {
+            this.aliases.set(alias.trim().toLowerCase(), model.trim());
+        }
+        return this;
+    }
+
+    /** The model ID an alias stands for; other IDs are returned unchanged */
+    resolve(model: string): string {
+        return this.aliases.get(model.trim().toLowerCase()) ?? model;
+    }
+
+    /** Whether the model is registered or belongs to a known family */
+    has(model: string): boolean {
+        return this.lookup(model) !== undefined;
+    }
+
+    /**
+     * Capabilities of a model, or undefined when it is unknown.
+     */
+    get(model: string): ModelCapabilities | undefined {
+        const definition = this.lookup(model);
+        if (!definition) {
+            return undefined;
+        }
+        const capabilities: ModelDefinition = { ...UNRESTRICTED, ...definition };
+        delete capabilities.aliases;
+        return capabilities as ModelCapabilities;
+    }
+
+    private lookup(model: string): ModelDefinition | undefined {
+        const id = this.resolve(model).trim().toLowerCase();
+        const base = baseModelName(id);
+        const own = this.models.get(id);
+        const inherited = this.models.get(base) ?? this.families.find(([pattern]) => pattern.test(base))?.[1];
+        if (!own && !inherited) {
+            return undefined;
+        }
+        return { ...inherited, ...own };
+    }
+}
+
+/** Registry used by the provider and the token/content helpers */
+export const modelRegistry = new ModelRegistry();
+
+/**
+ * Register a custom, fine-tuned or newly released model with the shared
+ * registry.
+ */
+export function registerModel(model: string | RegExp, definition?: ModelDefinition): void {
+    modelRegistry.register(model, definition);
+}
+
+/**
+ * Capabilities of a model in the shared registry, or undefined when unknown.
+ */
+export function getModelCapabilities(model: string): ModelCapabilities | undefined {
+    return modelRegistry.get(model);
+}
+
+/**
+ * Resolve an alias from the shared registry to the model ID to send.
+ */
+export function resolveModel(model: string): string {
+    return modelRegistry.resolve(model);
+}
+
+/**
+ * Output tokens to reserve for hidden reasoning on top of the visible cap:
+ * none for models that don't reason, otherwise scaled by the effort in
+ * force (the model's default when `effort` is not given).
+ */
+export function getReasoningHeadroom(model: string, effort?: ReasoningEffort): number {
+    const capabilities = getModelCapabilities(model);
+    const inForce = capabilities?.defaultReasoningEffort && (effort ?? capabilities.defaultReasoningEffort);
+    return inForce ? REASONING_HEADROOM[inForce] : 0;
+}
+
+/**
+ * Whether a model accepts `temperature`, or the other sampling parameters,
+ * at the reasoning effort in force (the model's default when `effort` is
+ * not given). Unknown models are assumed to.
+ */
+export function acceptsSampling(
+    model: string,
+    feature: 'temperature' | 'sampling',
+    effort?: ReasoningEffort
+): boolean {
+    const capabilities = getModelCapabilities(model);
+    if (!capabilities) {
+        return true;
+    }
+    if (!capabilities[feature]) {
+        return false;
+    }
+    const inForce = effort ?? capabilities.defaultReasoningEffort;
+    return !capabilities.samplingEfforts || inForce === undefined || capabilities.samplingEfforts.includes(inForce);
+}
+
+/**
+ * Clamp an output cap to what the model can produce.
+ */
+export function clampMaxTokens(model: string, maxTokens: number): number {
+    const limit = getModelCapabilities(model)?.maxOutputTokens;
+    return limit !== undefined ? Math.min(maxTokens, limit) : maxTokens;
+}
@@ -0,0 +1,157 @@
+/**
+ * Connection pooling for OpenAI API requests.
+ *
+ * Caches SDK clients by their connection settings and routes every request
+ * through a shared keep-alive undici dispatcher, so TCP/TLS connections are
+ * reused across calls instead of being rebuilt each time.
+ */
+
+import { createHash } from 'node:crypto';
+import OpenAI from 'openai';
+import { Agent, type Dispatcher, fetch as undiciFetch } from 'undici';
+import { createProxyAgent, getRequestUrl, isProxyBypassed } from './proxy.js';
+
+type ClientOptions = NonNullable<ConstructorParameters<typeof OpenAI>[0]>;
+
+export interface ConnectionPoolOptions {
+    /** Maximum sockets per origin. Unlimited by default. */
+    connections?: number;
+    /** Idle time before a kept-alive socket is closed, in milliseconds. Defaults to 30000. */
+    keepAliveTimeout?: number;
+}
+
+const DEFAULT_KEEP_ALIVE_TIMEOUT = 30_000;
+
+/**
+ * Build a cache key for a client. The API key is hashed so the raw secret
+ * never ends up in a map key that could be logged or inspected.
+ */
+function clientKey(options: ClientOptions, proxyUrl: string | undefined): string {
+    // `fetch` is always supplied by the pool and drops out of JSON.stringify
+    const { apiKey, ...rest } = options;
+    const keyHash = createHash('sha256').update(String(apiKey ?? '')).digest('hex');
+    const headers = rest.defaultHeaders
+        ? Object.entries(rest.defaultHeaders as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+        : undefined;
+    return JSON.stringify([keyHash, proxyUrl ?? null, { ...rest, defaultHeaders: headers }]);
+}
+
+/**
+ * SDK request options for one call. Per-call headers and timeouts travel
+ * with the request, not in the pooled client's settings, so varying them
+ * (e.g. a trace ID per call) does not create a client each time.
+ */
+export function toRequestOptions(options: {
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+    timeout?: number;
+}): { signal?: AbortSignal; headers?: Record<string, string>; timeout?: number } {
+    return {
+        signal: options.signal,
+        ...(options.headers && Object.keys(options.headers).length ? { headers: options.headers } : {}),
+        ...(options.timeout != null ? { timeout: options.timeout } : {}),
+    };
+}
+
+/**
+ * Pool of SDK clients sharing keep-alive dispatchers.
+ *
+ * `close()` tears down every pooled socket; the pool stays usable afterwards
+ * and lazily opens new connections on the next request.
+ */
+export class ClientPool {
+    private readonly clients = new Map<string, OpenAI>();
+    private readonly dispatchers = new Map<string, Dispatcher>();
+
+    /**
+     * @param transport - Custom `fetch` used instead of the pooled
+     *   dispatchers (e.g. a cassette in tests)
+     * @param onResponse - Sees the headers of every response, e.g. to
+     *   track rate limits
+     */
+    constructor(
+        private readonly options: ConnectionPoolOptions = {},
+        private readonly transport?: typeof fetch,
+        private readonly onResponse?: (headers: Headers) => void
+    ) {}
+
+    /** Number of cached clients */
+    get size(): number {
+        return this.clients.size;
+    }
+
+    /**
+     * Return a cached client for these settings, creating it on first use.
+     */
+    getClient(options: ClientOptions, proxyUrl?: string): OpenAI {
+        const key = clientKey(options, proxyUrl);
+        let client = this.clients.get(key);
+        if (!client) {
+            client = new OpenAI({ ...options, fetch: this.observe(this.transport ?? this.createFetch(proxyUrl)) });
+            this.clients.set(key, client);
+        }
+        return client;
+    }
+
+    /**
+     * Close all pooled connections and forget cached clients.
+     */
+    async close(): Promise<void> {
+        const dispatchers = [...this.dispatchers.values()];
+        this.dispatchers.clear();
+        this.clients.clear();
+        await Promise.all(dispatchers.map((dispatcher) => dispatcher.close()));
+    }
+
+    private getDispatcher(proxyUrl?: string): Dispatcher {
+        const key = proxyUrl ?? '';
+        let dispatcher = this.dispatchers.get(key);
+        if (!dispatcher) {
+            const poolOptions = {
+                keepAliveTimeout: this.options.keepAliveTimeout ?? DEFAULT_KEEP_ALIVE_TIMEOUT,
+                ...(this.options.connections != null ? { connections: this.options.connections } : {}),
+            };
+            dispatcher = proxyUrl ? createProxyAgent(proxyUrl, poolOptions) : new Agent(poolOptions);
+            this.dispatchers.set(key, dispatcher);
+        }
+        return dispatcher;
+    }
+
+    private observe(transport: typeof fetch): typeof fetch {
+        const onResponse = this.onResponse;
+        if (!onResponse) {
+            return transport;
+        }
+        const observed = async (input: any, init?: any) => {
+            const response = await transport(input, init);
+            onResponse(response.headers);
+            return response;
+        };
+        // Keep `Response`, which the SDK checks before file uploads
+        return Object.assign(observed, 'Response' in transport ? { Response: transport.Response } : {}) as any;
+    }
+
+    private createFetch(proxyUrl?: string): typeof fetch {
+        const pooledFetch = async (input: any, init?: any) => {
+            const bypass = !proxyUrl || isProxyBypassed(getRequestUrl(input));
+            const dispatcher = this.getDispatcher(bypass ? undefined : proxyUrl);
+            return undiciFetch(input, { ...(await encodeFormData(init)), dispatcher });
+        };
+        // The SDK checks `fetch.Response` to decide whether file uploads work
+        return Object.assign(pooledFetch, { Response }) as any;
+    }
+}
+
+/**
+ * undici's fetch does not serialize the global `FormData` the SDK builds for
+ * file uploads, so encode multipart bodies before handing them over.
+ */
+async function encodeFormData(init?: any): Promise<any> {
+    if (!(init?.body instanceof FormData)) {
+        return init;
+    }
+    const encoded = new Response(init.body);
+    const headers = new Headers(init.headers);
+    headers.set('content-type', encoded.headers.get('content-type') ?? 'multipart/form-data');
+    return { ...init, headers, body: await encoded.arrayBuffer() };
+}
@@ -65,6 +65,33 @@ export function isProxyBypassed(targetUrl: string): boolean {
     return false;
 }
 
+/**
+ * Create a ProxyAgent for the given proxy URL, honoring TLS verification
+ * settings. Extra pool options (connection limits, keep-alive) are passed
+ * through to undici.
+ */
+export function createProxyAgent(
+    proxyUrl: string,
+    options: Omit<ProxyAgent.Options, 'uri' | 'requestTls'> = {}
+): ProxyAgent {
+    return new ProxyAgent({
+        ...options,
+        uri: proxyUrl,
+        requestTls: { rejectUnauthorized: getStrictSSL() },
+    });
+}
+
+/**
+ * Extract the target URL from a fetch input.
+ */
+export function getRequestUrl(input: any): string {
+    return typeof input === 'string'
+        ? input
+        : input instanceof URL
+            ? input.toString()
+            : input.url;
+}
+
 /**
  * Create a fetch implementation that routes requests through an HTTP(S) proxy.
  * Respects TLS verification settings and NO_PROXY bypass lists.
@@ -73,17 +100,9 @@ export function isProxyBypassed(targetUrl: string): boolean {
  * @returns A fetch function that uses ProxyAgent as the dispatcher
  */
 export function createProxyFetch(proxyUrl: string): typeof fetch {
-    const proxyAgent = new ProxyAgent({
-        uri: proxyUrl,
-        requestTls: { rejectUnauthorized: getStrictSSL() },
-    });
+    const proxyAgent = createProxyAgent(proxyUrl);
     return ((input: any, init?: any) => {
-        const targetUrl = typeof input === 'string'
-            ? input
-            : input instanceof URL
-                ? input.toString()
-                : input.url;
-        if (isProxyBypassed(targetUrl)) {
+        if (isProxyBypassed(getRequestUrl(input))) {
             return undiciFetch(input, init);
         }
         return undiciFetch(input, { ...init, dispatcher: proxyAgent });
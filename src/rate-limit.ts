@@ -0,0 +1,256 @@
+/**
+ * Client-side rate limiting.
+ *
+ * `RateLimiter` holds callers back before they hit the API: token buckets
+ * for requests and tokens per minute, a concurrency cap, and a queue served
+ * by priority, then arrival order. Token costs are estimated up front and
+ * reconciled with reported usage afterwards, and the buckets follow the
+ * `x-ratelimit-*` headers the API returns, so workers sharing one quota
+ * slow down together.
+ */
+
+export interface RateLimiterOptions {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+    /** Calls in flight at once. Unlimited by default. */
+    maxConcurrent?: number;
+    /**
+     * Lower the buckets to the `x-ratelimit-remaining-*` values and adopt
+     * the `x-ratelimit-limit-*` limits when they are tighter. Defaults to true.
+     */
+    adaptFromHeaders?: boolean;
+}
+
+export interface RateLimiterState {
+    /** Callers waiting for a slot */
+    queueDepth: number;
+    /** Calls holding a slot */
+    active: number;
+    maxConcurrent?: number;
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+    /** Requests that could start now */
+    availableRequests?: number;
+    /** Tokens that could be spent now; negative after underestimates */
+    availableTokens?: number;
+}
+
+export interface RateLimitPermit {
+    /**
+     * Free the slot. Pass the tokens actually used to correct the estimate;
+     * without it the estimate stands.
+     */
+    release(actualTokens?: number): void;
+}
+
+/** Response headers, as a Fetch `Headers` or anything with `get` */
+export interface HeaderSource {
+    get(name: string): string | null;
+}
+
+const WINDOW_MS = 60_000;
+
+class TokenBucket {
+    level: number;
+    private updatedAt = Date.now();
+
+    constructor(public capacity: number) {
+        this.level = capacity;
+    }
+
+    refill(now = Date.now()): void {
+        this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / WINDOW_MS);
+        this.updatedAt = now;
+    }
+
+    /** Milliseconds until `amount` is available; 0 when it is now */
+    waitMs(amount: number, now = Date.now()): number {
+        this.refill(now);
+        const needed = Math.min(amount, this.capacity) - this.level;
+        return needed > 0 ? Math.ceil((needed * WINDOW_MS) / this.capacity) : 0;
+    }
+
+    take(amount: number): void {
+        this.level -= Math.min(amount, this.capacity);
+    }
+}
+
+interface Waiter {
+    priority: number;
+    tokens: number;
+    resolve: (permit: RateLimitPermit) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+function readHeader(headers: HeaderSource, name: string): number | undefined {
+    const value = headers.get(name);
+    const parsed = value == null || value === '' ? NaN : Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Token-bucket rate limiter and concurrency governor. Share one instance
+ * between providers that draw on the same quota.
+ */
+export class RateLimiter {
+    private requests?: TokenBucket;
+    private tokens?: TokenBucket;
+    private active = 0;
+    private queue: Waiter[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(private readonly options: RateLimiterOptions = {}) {
+        if (options.requestsPerMinute !== undefined) {
+            this.requests = new TokenBucket(options.requestsPerMinute);
+        }
+        if (options.tokensPerMinute !== undefined) {
+            this.tokens = new TokenBucket(options.tokensPerMinute);
+        }
+    }
+
+    /**
+     * Wait for a slot for a call expected to use `estimatedTokens`. Higher
+     * `priority` goes first; equal priorities are served in arrival order.
+     * Rejects with the signal's reason if `signal` aborts while waiting.
+     */
+    acquire(
+        estimatedTokens: number,
+        options: { priority?: number; signal?: AbortSignal } = {}
+    ): Promise<RateLimitPermit> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                priority: options.priority ?? 0,
+                tokens: estimatedTokens,
+                resolve,
+                signal,
+            };
+            if (signal) {
+                waiter.onAbort = () => {
+                    this.queue = this.queue.filter((w) => w !== waiter);
+                    reject(signal.reason);
+                    this.drain();
+                };
+                signal.addEventListener('abort', waiter.onAbort, { once: true });
+            }
+            // Keep the queue ordered: priority first, then arrival
+            const index = this.queue.findIndex((w) => w.priority < waiter.priority);
+            this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+            this.drain();
+        });
+    }
+
+    /**
+     * Adjust the buckets from a response's `x-ratelimit-*` headers.
+     */
+    updateFromHeaders(headers: HeaderSource): void {
+        if (this.options.adaptFromHeaders === false) {
+            return;
+        }
+        this.requests = this.adapt(
+            this.requests,
+            this.options.requestsPerMinute,
+            readHeader(headers, 'x-ratelimit-limit-requests'),
+            readHeader(headers, 'x-ratelimit-remaining-requests')
+        );
+        this.tokens = this.adapt(
+            this.tokens,
+            this.options.tokensPerMinute,
+            readHeader(headers, 'x-ratelimit-limit-tokens'),
+            readHeader(headers, 'x-ratelimit-remaining-tokens')
+        );
+        this.drain();
+    }
+
+    /** Snapshot for dashboards */
+    get state(): RateLimiterState {
+        this.requests?.refill();
+        this.tokens?.refill();
+        return {
+            queueDepth: this.queue.length,
+            active: this.active,
+            ...(this.options.maxConcurrent !== undefined ? { maxConcurrent: this.options.maxConcurrent } : {}),
+            ...(this.requests
+                ? { requestsPerMinute: this.requests.capacity, availableRequests: Math.floor(this.requests.level) }
+                : {}),
+            ...(this.tokens
+                ? { tokensPerMinute: this.tokens.capacity, availableTokens: Math.floor(this.tokens.level) }
+                : {}),
+        };
+    }
+
+    private adapt(
+        bucket: TokenBucket | undefined,
+        configured: number | undefined,
+        limit: number | undefined,
+        remaining: number | undefined
+    ): TokenBucket | undefined {
+        if (limit !== undefined && limit > 0) {
+            const capacity = Math.min(configured ?? limit, limit);
+            if (!bucket) {
+                bucket = new TokenBucket(capacity);
+            } else {
+                bucket.refill();
+                bucket.capacity = capacity;
+                bucket.level = Math.min(bucket.level, capacity);
+            }
+        }
+        if (bucket && remaining !== undefined) {
+            // Other clients on the same quota have used the difference
+            bucket.refill();
+            bucket.level = Math.min(bucket.level, remaining);
+        }
+        return bucket;
+    }
+
+    private drain(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        while (this.queue.length) {
+            if (this.options.maxConcurrent !== undefined && this.active >= this.options.maxConcurrent) {
+                return;
+            }
+            // Only the head may start, so large requests are not starved
+            const head = this.queue[0];
+            const now = Date.now();
+            const waitMs = Math.max(this.requests?.waitMs(1, now) ?? 0, this.tokens?.waitMs(head.tokens, now) ?? 0);
+            if (waitMs > 0) {
+                this.timer = setTimeout(() => this.drain(), waitMs);
+                return;
+            }
+            this.queue.shift();
+            if (head.onAbort) {
+                head.signal?.removeEventListener('abort', head.onAbort);
+            }
+            this.requests?.take(1);
+            this.tokens?.take(head.tokens);
+            this.active++;
+            head.resolve(this.createPermit(head.tokens));
+        }
+    }
+
+    private createPermit(estimatedTokens: number): RateLimitPermit {
+        let released = false;
+        return {
+            release: (actualTokens) => {
+                if (released) {
+                    return;
+                }
+                released = true;
+                this.active--;
+                if (actualTokens !== undefined && this.tokens) {
+                    this.tokens.refill();
+                    this.tokens.level = Math.min(
+                        this.tokens.capacity,
+                        this.tokens.level + Math.min(estimatedTokens, this.tokens.capacity) - actualTokens
+                    );
+                }
+                this.drain();
+            },
+        };
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * Responses API backend.
+ *
+ * Maps provider messages, tools and response formats onto
+ * `client.responses.create` inputs, and Responses output items and stream
+ * events back onto `ProviderResponse` and `StreamChunk`, so callers see the
+ * same shapes whichever backend serves the request.
+ */
+
+import type OpenAI from 'openai';
+import type { Message, ProviderResponse, StreamChunk, ToolChoice, ToolDefinition } from './index.js';
+import { mapContentToResponses } from './content.js';
+import { getToolCallId, getToolCalls, toolParameters } from './tools.js';
+import { mapResponsesUsage, responsesFinishReason } from './usage.js';
+import { toolCallEndChunk } from './stream.js';
+import { mapLogprobs, type TokenLogprob } from './sampling.js';
+
+type ResponseInputItem = OpenAI.Responses.ResponseInputItem;
+
+function textOf(content: Message['content']): string {
+    if (content == null) {
+        return '';
+    }
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content
+        .map((part) => (typeof part === 'string' ? part : part.type === 'text' ? part.text : ''))
+        .join('');
+}
+
+/**
+ * Convert provider messages into Responses input items. Assistant tool calls
+ * become `function_call` items and tool results `function_call_output` items.
+ */
+export function mapMessagesToResponsesInput(messages: Message[]): ResponseInputItem[] {
+    const items: ResponseInputItem[] = [];
+    for (const msg of messages) {
+        if (msg.role === 'tool') {
+            items.push({
+                type: 'function_call_output',
+                call_id: getToolCallId(msg),
+                output: textOf(msg.content),
+            });
+            continue;
+        }
+        if (msg.role === 'assistant') {
+            const text = textOf(msg.content);
+            if (text) {
+                items.push({ role: 'assistant', content: text });
+            }
+            for (const tc of getToolCalls(msg)) {
+                items.push({
+                    type: 'function_call',
+                    call_id: tc.id,
+                    name: tc.function.name,
+                    arguments: tc.function.arguments,
+                });
+            }
+            continue;
+        }
+        items.push({ role: msg.role, content: mapContentToResponses(msg.content) });
+    }
+    return items;
+}
+
+/**
+ * Convert provider tool definitions into Responses function tools.
+ */
+export function buildResponsesTools(tools: ToolDefinition[] | undefined): OpenAI.Responses.FunctionTool[] | undefined {
+    if (!tools?.length) {
+        return undefined;
+    }
+    return tools.map((tool) => ({
+        type: 'function' as const,
+        name: tool.name,
+        description: tool.description,
+        parameters: toolParameters(tool),
+        strict: tool.strict ?? false,
+    }));
+}
+
+/**
+ * Convert a provider tool choice into a Responses `tool_choice`.
+ */
+export function buildResponsesToolChoice(
+    toolChoice: ToolChoice | undefined
+): OpenAI.Responses.ResponseCreateParams['tool_choice'] {
+    if (toolChoice === undefined || typeof toolChoice === 'string') {
+        return toolChoice;
+    }
+    return { type: 'function', name: toolChoice.name };
+}
+
+/**
+ * Convert a Chat Completions `response_format` into a Responses text format.
+ */
+export function mapResponseFormatToResponses(
+    responseFormat: any
+): OpenAI.Responses.ResponseFormatTextConfig | undefined {
+    if (responseFormat == null) {
+        return undefined;
+    }
+    if (responseFormat.type === 'json_schema' && responseFormat.json_schema) {
+        return { type: 'json_schema', ...responseFormat.json_schema };
+    }
+    return responseFormat;
+}
+
+/**
+ * Convert a Responses API result into a provider response.
+ */
+export function mapResponseToProviderResponse(response: OpenAI.Responses.Response): ProviderResponse {
+    let content = '';
+    let refusal = '';
+    const logprobs: TokenLogprob[] = [];
+    const toolCalls: NonNullable<ProviderResponse['toolCalls']> = [];
+
+    for (const item of response.output ?? []) {
+        if (item.type === 'message') {
+            for (const part of item.content) {
+                if (part.type === 'output_text') {
+                    content += part.text;
+                    logprobs.push(...(mapLogprobs(part.logprobs) ?? []));
+                } else {
+                    refusal += part.refusal;
+                }
+            }
+        } else if (item.type === 'function_call') {
+            toolCalls.push({
+                id: item.call_id,
+                type: 'function',
+                function: { name: item.name, arguments: item.arguments },
+            });
+        }
+    }
+
+    const finishReason = responsesFinishReason(response);
+
+    return {
+        id: response.id,
+        content,
+        ...(refusal ? { refusal } : {}),
+        ...(finishReason ? { finishReason } : {}),
+        model: response.model,
+        usage: response.usage ? mapResponsesUsage(response.usage) : undefined,
+        toolCalls: toolCalls.length ? toolCalls : undefined,
+        ...(logprobs.length ? { logprobs } : {}),
+    };
+}
+
+/**
+ * Translate Responses stream events into provider stream chunks. Tool call
+ * indexes are renumbered from 0 so they match Chat Completions streams,
+ * where `output_index` also counts message and reasoning items.
+ */
+export async function* mapResponsesStream(
+    stream: AsyncIterable<OpenAI.Responses.ResponseStreamEvent>
+): AsyncGenerator<StreamChunk> {
+    const toolIndexByOutput = new Map<number, number>();
+    // Calls still receiving arguments, by renumbered index
+    const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    // For `previousResponseId`; known from `response.created` on
+    let id: string | undefined;
+
+    for await (const event of stream) {
+        switch (event.type) {
+            case 'response.created':
+                id = event.response.id || id;
+                break;
+            case 'response.output_text.delta': {
+                const logprobs = mapLogprobs(event.logprobs);
+                yield { type: 'text', text: event.delta, ...(logprobs ? { logprobs } : {}) };
+                break;
+            }
+            case 'response.refusal.delta':
+                yield { type: 'refusal', refusal: event.delta };
+                break;
+            case 'response.output_item.added':
+                if (event.item.type === 'function_call') {
+                    const index = toolIndexByOutput.size;
+                    toolIndexByOutput.set(event.output_index, index);
+                    toolCalls.set(index, { id: event.item.call_id, name: event.item.name, arguments: '' });
+                    yield {
+                        type: 'tool_call_start',
+                        toolCall: { id: event.item.call_id, index, name: event.item.name },
+                    };
+                }
+                break;
+            case 'response.function_call_arguments.delta': {
+                const index = toolIndexByOutput.get(event.output_index);
+                const toolCall = index !== undefined ? toolCalls.get(index) : undefined;
+                if (toolCall) {
+                    toolCall.arguments += event.delta;
+                    yield { type: 'tool_call_delta', toolCall: { index, argumentsDelta: event.delta } };
+                }
+                break;
+            }
+            case 'response.output_item.done': {
+                const index = toolIndexByOutput.get(event.output_index);
+                const toolCall = index !== undefined ? toolCalls.get(index) : undefined;
+                if (index !== undefined && toolCall) {
+                    const item = event.item as Partial<OpenAI.Responses.ResponseFunctionToolCall>;
+                    yield toolCallEndChunk({ ...toolCall, index, arguments: item.arguments ?? toolCall.arguments });
+                    toolCalls.delete(index);
+                }
+                break;
+            }
+            case 'response.completed':
+            case 'response.incomplete': {
+                // Calls that never finished were cut off
+                for (const [index, toolCall] of toolCalls) {
+                    yield toolCallEndChunk({ ...toolCall, index }, true);
+                }
+                toolCalls.clear();
+                if (event.response.usage) {
+                    yield { type: 'usage', usage: mapResponsesUsage(event.response.usage) };
+                }
+                const finishReason = responsesFinishReason(event.response);
+                id = event.response.id || id;
+                yield { type: 'done', ...(finishReason ? { finishReason } : {}), ...(id ? { id } : {}) };
+                return;
+            }
+            case 'response.failed':
+                throw new Error(event.response.error?.message ?? 'Response failed');
+            case 'error':
+                throw Object.assign(new Error(event.message), { code: event.code });
+        }
+    }
+
+    for (const [index, toolCall] of toolCalls) {
+        yield toolCallEndChunk({ ...toolCall, index }, true);
+    }
+    yield { type: 'done', ...(id ? { id } : {}) };
+}
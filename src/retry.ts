@@ -0,0 +1,228 @@
+/**
+ * Retry policy for OpenAI API requests.
+ *
+ * The SDK's own retry loop is disabled by the provider so that
+ * `ExecutionOptions.retries` is the single source of truth. Delays use
+ * exponential backoff with full jitter, and defer to server hints
+ * (`retry-after-ms`, `Retry-After`, `x-ratelimit-reset-*`) when present.
+ */
+
+export interface RetryPolicy {
+    /** Number of retries after the initial attempt */
+    retries: number;
+    /** Base delay for the first retry, in milliseconds */
+    initialDelayMs: number;
+    /** Upper bound for any single delay, in milliseconds */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    initialDelayMs: 500,
+    maxDelayMs: 60_000,
+};
+
+/** Low-level socket error codes that indicate a transient network failure. */
+const RETRYABLE_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+    'UND_ERR_BODY_TIMEOUT',
+]);
+
+/** Error names used by the OpenAI SDK for connection-level failures. */
+const RETRYABLE_ERROR_NAMES = new Set([
+    'APIConnectionError',
+    'APIConnectionTimeoutError',
+]);
+
+/** API error codes that are never worth retrying, whatever the status. */
+const FATAL_API_CODES = new Set([
+    'insufficient_quota',
+    'content_policy_violation',
+    'context_length_exceeded',
+    'invalid_api_key',
+]);
+
+/**
+ * Read a response header from an SDK error. Accepts both a Fetch `Headers`
+ * instance and a plain record, since errors may be constructed by hand.
+ */
+export function getErrorHeader(error: unknown, name: string): string | undefined {
+    const headers = (error as { headers?: unknown } | null)?.headers;
+    if (!headers) {
+        return undefined;
+    }
+    if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name) ?? undefined;
+    }
+    const record = headers as Record<string, string | undefined>;
+    const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+    return key ? record[key] : undefined;
+}
+
+/**
+ * Parse the duration format used by `x-ratelimit-reset-*` headers
+ * (e.g. `"20ms"`, `"1s"`, `"6m0s"`, `"1h2m3.5s"`) into milliseconds.
+ */
+export function parseResetDuration(value: string): number | undefined {
+    const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1_000, ms: 1 };
+    let total = 0;
+    let matched = false;
+    for (const match of value.trim().matchAll(pattern)) {
+        total += parseFloat(match[1]) * units[match[2]];
+        matched = true;
+    }
+    return matched ? total : undefined;
+}
+
+/**
+ * Extract the delay the server asked us to wait before retrying, if any.
+ */
+export function getServerRetryDelayMs(error: unknown, now: number = Date.now()): number | undefined {
+    const retryAfterMs = getErrorHeader(error, 'retry-after-ms');
+    if (retryAfterMs) {
+        const ms = parseFloat(retryAfterMs);
+        if (!Number.isNaN(ms)) {
+            return Math.max(0, ms);
+        }
+    }
+
+    const retryAfter = getErrorHeader(error, 'retry-after');
+    if (retryAfter) {
+        const seconds = parseFloat(retryAfter);
+        if (!Number.isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - now);
+        }
+    }
+
+    if ((error as { status?: number } | null)?.status === 429) {
+        const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+            .map((name) => getErrorHeader(error, name))
+            .map((value) => (value ? parseResetDuration(value) : undefined))
+            .filter((ms): ms is number => ms !== undefined);
+        if (resets.length) {
+            return Math.max(...resets);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Classify an error as transient (worth retrying) or fatal.
+ *
+ * Retryable: 408, 409, 429, 5xx, SDK connection errors and socket resets.
+ * Fatal: other 4xx (bad request, auth, content policy), quota exhaustion,
+ * user aborts and anything we don't recognize.
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (!error || typeof error !== 'object') {
+        return false;
+    }
+    const err = error as {
+        status?: number;
+        code?: string | null;
+        name?: string;
+        cause?: { code?: string };
+    };
+
+    const shouldRetryHeader = getErrorHeader(error, 'x-should-retry');
+    if (shouldRetryHeader === 'true') return true;
+    if (shouldRetryHeader === 'false') return false;
+
+    if (err.code && FATAL_API_CODES.has(err.code)) {
+        return false;
+    }
+
+    if (typeof err.status === 'number') {
+        return err.status === 408 || err.status === 409 || err.status === 429 || err.status >= 500;
+    }
+
+    if (err.name && RETRYABLE_ERROR_NAMES.has(err.name)) {
+        return true;
+    }
+
+    const code = err.code ?? err.cause?.code;
+    return !!code && RETRYABLE_ERROR_CODES.has(code);
+}
+
+/**
+ * Compute the delay before retry number `attempt` (0-based).
+ * Server hints win over backoff; both are capped at `policy.maxDelayMs`.
+ */
+export function computeRetryDelayMs(
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy,
+    random: () => number = Math.random
+): number {
+    const serverDelay = getServerRetryDelayMs(error);
+    if (serverDelay !== undefined) {
+        return Math.min(serverDelay, policy.maxDelayMs);
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** attempt);
+    return Math.floor(random() * ceiling);
+}
+
+/**
+ * Build a retry policy from per-call options, falling back to defaults.
+ */
+export function resolveRetryPolicy(
+    retries: number | undefined,
+    base: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy {
+    return {
+        ...base,
+        retries: retries != null && retries >= 0 ? Math.floor(retries) : base.retries,
+    };
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Run `fn`, retrying transient failures according to `policy`. An aborted
+ * `signal` stops further attempts, including during the backoff delay.
+ */
+export async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    policy: RetryPolicy,
+    signal?: AbortSignal
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            if (signal?.aborted || attempt >= policy.retries || !isRetryableError(error)) {
+                throw error;
+            }
+            await sleep(computeRetryDelayMs(error, attempt, policy), signal);
+        }
+    }
+}
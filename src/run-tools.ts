@@ -0,0 +1,230 @@
+/**
+ * Tool execution loop.
+ *
+ * `runTools` calls the provider, runs the requested tool calls through local
+ * handlers, sends their results back as `tool` messages and repeats until
+ * the model answers without calling a tool. `runToolsStream` does the same
+ * over `executeStream`, forwarding every chunk as it arrives.
+ */
+
+import type {
+    ExecutionOptions,
+    Message,
+    Provider,
+    ProviderResponse,
+    Request,
+    StreamChunk,
+    ToolCall,
+    Usage,
+} from './index.js';
+import { ToolIterationLimitError } from './errors.js';
+import { validateJsonSchema, type JsonSchema } from './structured.js';
+import { toolParameters } from './tools.js';
+import { addUsage } from './usage.js';
+import { StreamResponseCollector } from './stream.js';
+
+export interface ToolHandlerContext {
+    toolCall: ToolCall;
+    /** The caller's `ExecutionOptions.signal` */
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs one tool call. Receives the parsed, schema-validated arguments; the
+ * return value is sent to the model (strings as-is, anything else as JSON).
+ * A thrown error is sent to the model as the tool result.
+ */
+export type ToolHandler<TArgs = any> = (args: TArgs, context: ToolHandlerContext) => unknown;
+
+export interface RunToolsOptions extends ExecutionOptions {
+    /** Handlers keyed by tool name */
+    handlers: Record<string, ToolHandler>;
+    /** Tool-calling round-trips allowed before giving up. Defaults to 10. */
+    maxIterations?: number;
+}
+
+export interface ToolResult {
+    toolCall: ToolCall;
+    /** Handler return value; unset when the call failed */
+    result?: unknown;
+    /** Why the call failed: bad arguments, unknown tool, or a handler error */
+    error?: string;
+    /** Content of the `tool` message sent back */
+    content: string;
+}
+
+export interface ToolRunStep {
+    response: ProviderResponse;
+    toolResults: ToolResult[];
+}
+
+export interface RunToolsResult {
+    /** The final answer, with no tool calls */
+    response: ProviderResponse;
+    /** Every round-trip that requested tool calls, in order */
+    steps: ToolRunStep[];
+    /** The conversation including assistant tool calls and tool results */
+    messages: Message[];
+    /** Usage summed over every round-trip */
+    usage?: Usage;
+    /** Estimated USD cost summed over every round-trip */
+    cost?: number;
+}
+
+export type RunToolsStreamEvent = StreamChunk | { type: 'tool_result'; toolResult: ToolResult };
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function toolContent(result: unknown): string {
+    return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+}
+
+/**
+ * Parse, validate and dispatch one tool call. Never throws: every failure
+ * becomes an error result the model can react to.
+ */
+async function runToolCall(
+    toolCall: ToolCall,
+    request: Request,
+    options: RunToolsOptions
+): Promise<ToolResult> {
+    const fail = (error: string): ToolResult => ({ toolCall, error, content: `Error: ${error}` });
+
+    const { name } = toolCall.function;
+    const handler = options.handlers[name];
+    if (!handler) {
+        return fail(`Unknown tool "${name}"`);
+    }
+
+    let args: unknown;
+    try {
+        args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (error) {
+        return fail(`Arguments are not valid JSON: ${errorMessage(error)}`);
+    }
+
+    try {
+        const tool = request.tools?.find((t) => t.name === name);
+        if (tool) {
+            // Against the schema actually sent: strict tools send null for omitted optionals
+            const validation = validateJsonSchema(toolParameters(tool) as JsonSchema, args);
+            if (!validation.valid) {
+                return fail(`Invalid arguments: ${validation.errors.join('; ')}`);
+            }
+        }
+        const result = await handler(args, { toolCall, signal: options.signal });
+        return { toolCall, result, content: toolContent(result) };
+    } catch (error) {
+        return fail(errorMessage(error));
+    }
+}
+
+/**
+ * Run a turn's tool calls concurrently and append the assistant turn and
+ * the tool results to the conversation.
+ */
+async function runToolCalls(
+    response: ProviderResponse,
+    toolCalls: ToolCall[],
+    request: Request,
+    messages: Message[],
+    options: RunToolsOptions
+): Promise<ToolResult[]> {
+    const assistant: Message = { role: 'assistant', content: response.content || null, toolCalls };
+    messages.push(assistant);
+    request.addMessage(assistant);
+
+    const results = await Promise.all(toolCalls.map((toolCall) => runToolCall(toolCall, request, options)));
+    for (const result of results) {
+        const message: Message = { role: 'tool', content: result.content, toolCallId: result.toolCall.id };
+        messages.push(message);
+        request.addMessage(message);
+    }
+    return results;
+}
+
+function sumCost(a: number | undefined, b: number | undefined): number | undefined {
+    return a !== undefined && b !== undefined ? a + b : a ?? b;
+}
+
+/**
+ * Call the model and run its tool calls until it answers without calling a
+ * tool. Throws `ToolIterationLimitError` after `maxIterations` round-trips
+ * that still request tools.
+ */
+export async function runTools(
+    provider: Provider,
+    request: Request,
+    options: RunToolsOptions
+): Promise<RunToolsResult> {
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const messages = [...request.messages];
+    const steps: ToolRunStep[] = [];
+    let usage: Usage | undefined;
+    let cost: number | undefined;
+
+    for (let iteration = 0; ; iteration++) {
+        const response = await provider.execute({ ...request, messages: [...messages] }, options);
+        usage = addUsage(usage, response.usage);
+        cost = sumCost(cost, response.cost);
+
+        if (!response.toolCalls?.length) {
+            return { response, steps, messages, usage, cost };
+        }
+        if (iteration >= maxIterations) {
+            throw new ToolIterationLimitError(maxIterations, steps);
+        }
+
+        const toolResults = await runToolCalls(response, response.toolCalls, request, messages, options);
+        steps.push({ response, toolResults });
+    }
+}
+
+/**
+ * Streaming `runTools`: forwards each round-trip's chunks, then a
+ * `tool_result` event per tool call. The generator's return value is the
+ * same `RunToolsResult` as `runTools`.
+ */
+export async function* runToolsStream(
+    provider: Provider,
+    request: Request,
+    options: RunToolsOptions
+): AsyncGenerator<RunToolsStreamEvent, RunToolsResult> {
+    if (!provider.executeStream) {
+        throw new Error(`Provider "${provider.name}" does not support streaming`);
+    }
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const messages = [...request.messages];
+    const steps: ToolRunStep[] = [];
+    let usage: Usage | undefined;
+    let cost: number | undefined;
+
+    for (let iteration = 0; ; iteration++) {
+        const collector = new StreamResponseCollector(options.model || request.model);
+        for await (const chunk of provider.executeStream({ ...request, messages: [...messages] }, options)) {
+            collector.add(chunk);
+            yield chunk;
+        }
+        const response = collector.response();
+        const toolCalls = response.toolCalls ?? [];
+        usage = addUsage(usage, response.usage);
+        cost = sumCost(cost, response.cost);
+
+        if (!toolCalls.length) {
+            return { response, steps, messages, usage, cost };
+        }
+        if (iteration >= maxIterations) {
+            throw new ToolIterationLimitError(maxIterations, steps);
+        }
+
+        const toolResults = await runToolCalls(response, toolCalls, request, messages, options);
+        for (const toolResult of toolResults) {
+            yield { type: 'tool_result', toolResult };
+        }
+        steps.push({ response, toolResults });
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * Sampling and generation parameters.
+ *
+ * Checks the values in `ExecutionOptions` before anything is sent, drops the
+ * sampling parameters a model rejects (reasoning models take neither
+ * `top_p` nor penalties, `logit_bias`, logprobs or `stop`), and maps the
+ * rest onto Chat Completions or Responses params. Token logprobs from either
+ * API are normalized to `TokenLogprob`.
+ */
+
+import type OpenAI from 'openai';
+import type { ExecutionOptions } from './index.js';
+import { UnsupportedFeatureError } from './errors.js';
+import { acceptsSampling } from './models.js';
+
+export interface TokenLogprob {
+    token: string;
+    logprob: number;
+    /** UTF-8 bytes of the token, when reported */
+    bytes?: number[];
+    /** Most likely tokens at this position, when `topLogprobs` was requested */
+    topLogprobs?: Array<{ token: string; logprob: number; bytes?: number[] }>;
+}
+
+/** Logprob entry in the shape shared by Chat Completions and the Responses API */
+interface ApiLogprob {
+    token?: string;
+    logprob?: number;
+    bytes?: number[] | null;
+    top_logprobs?: ApiLogprob[];
+}
+
+const MAX_STOP_SEQUENCES = 4;
+const MAX_TOP_LOGPROBS = 20;
+const MAX_METADATA_PAIRS = 16;
+
+function assertRange(name: string, value: number | undefined, min: number, max: number, integer = false): void {
+    if (value === undefined) {
+        return;
+    }
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        throw new RangeError(`${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}, got ${value}`);
+    }
+}
+
+/**
+ * Check sampling options against the API's documented limits.
+ */
+export function validateSamplingOptions(options: ExecutionOptions): void {
+    assertRange('topP', options.topP, 0, 1);
+    assertRange('presencePenalty', options.presencePenalty, -2, 2);
+    assertRange('frequencyPenalty', options.frequencyPenalty, -2, 2);
+    assertRange('n', options.n, 1, 128, true);
+    assertRange('topLogprobs', options.topLogprobs, 0, MAX_TOP_LOGPROBS, true);
+    assertRange('seed', options.seed, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, true);
+    for (const [token, bias] of Object.entries(options.logitBias ?? {})) {
+        assertRange(`logitBias[${token}]`, bias, -100, 100);
+    }
+    if (Array.isArray(options.stop) && options.stop.length > MAX_STOP_SEQUENCES) {
+        throw new RangeError(`stop accepts at most ${MAX_STOP_SEQUENCES} sequences, got ${options.stop.length}`);
+    }
+    if (options.metadata && Object.keys(options.metadata).length > MAX_METADATA_PAIRS) {
+        throw new RangeError(`metadata accepts at most ${MAX_METADATA_PAIRS} pairs`);
+    }
+}
+
+/**
+ * The sampling options to send for a model: validated, with the ones the
+ * model registry says it rejects at this reasoning effort dropped, like
+ * temperature.
+ */
+function resolveSamplingOptions(model: string, options: ExecutionOptions): ExecutionOptions {
+    validateSamplingOptions(options);
+    if (acceptsSampling(model, 'sampling', options.reasoningEffort)) {
+        return options;
+    }
+    return {
+        ...options,
+        topP: undefined,
+        presencePenalty: undefined,
+        frequencyPenalty: undefined,
+        logitBias: undefined,
+        logprobs: undefined,
+        topLogprobs: undefined,
+        stop: undefined,
+    };
+}
+
+/** `topLogprobs` implies `logprobs` */
+function wantsLogprobs(options: ExecutionOptions): boolean {
+    return options.logprobs === true || options.topLogprobs !== undefined;
+}
+
+/**
+ * Sampling params for a Chat Completions request.
+ */
+export function buildChatSamplingParams(
+    model: string,
+    options: ExecutionOptions
+): Partial<OpenAI.ChatCompletionCreateParamsNonStreaming> {
+    const o = resolveSamplingOptions(model, options);
+    return {
+        ...(o.topP !== undefined ? { top_p: o.topP } : {}),
+        ...(o.stop !== undefined ? { stop: o.stop } : {}),
+        ...(o.seed !== undefined ? { seed: o.seed } : {}),
+        ...(o.presencePenalty !== undefined ? { presence_penalty: o.presencePenalty } : {}),
+        ...(o.frequencyPenalty !== undefined ? { frequency_penalty: o.frequencyPenalty } : {}),
+        ...(o.logitBias !== undefined ? { logit_bias: o.logitBias } : {}),
+        ...(o.n !== undefined ? { n: o.n } : {}),
+        ...(wantsLogprobs(o) ? { logprobs: true } : {}),
+        ...(o.topLogprobs !== undefined ? { top_logprobs: o.topLogprobs } : {}),
+        ...(o.user !== undefined ? { user: o.user } : {}),
+        ...(o.metadata !== undefined ? { metadata: o.metadata } : {}),
+        ...(o.store !== undefined ? { store: o.store } : {}),
+    };
+}
+
+/**
+ * Sampling params for a Responses API request. Options the Responses API
+ * has no equivalent for are rejected rather than silently ignored.
+ */
+export function buildResponsesSamplingParams(
+    model: string,
+    options: ExecutionOptions
+): Partial<OpenAI.Responses.ResponseCreateParamsNonStreaming> {
+    const o = resolveSamplingOptions(model, options);
+    const unsupported = [
+        o.stop !== undefined && 'stop',
+        o.seed !== undefined && 'seed',
+        o.presencePenalty !== undefined && 'presencePenalty',
+        o.frequencyPenalty !== undefined && 'frequencyPenalty',
+        o.logitBias !== undefined && 'logitBias',
+        (o.n ?? 1) > 1 && 'n > 1',
+    ].find(Boolean);
+    if (unsupported) {
+        throw new UnsupportedFeatureError(model, `${unsupported} on the Responses API`);
+    }
+    return {
+        ...(o.topP !== undefined ? { top_p: o.topP } : {}),
+        ...(wantsLogprobs(o) ? { include: ['message.output_text.logprobs' as const] } : {}),
+        ...(o.topLogprobs !== undefined ? { top_logprobs: o.topLogprobs } : {}),
+        ...(o.user !== undefined ? { user: o.user } : {}),
+        ...(o.metadata !== undefined ? { metadata: o.metadata } : {}),
+        ...(o.store !== undefined ? { store: o.store } : {}),
+    };
+}
+
+/**
+ * Normalize token logprobs from either API.
+ */
+export function mapLogprobs(logprobs: ApiLogprob[] | null | undefined): TokenLogprob[] | undefined {
+    if (!logprobs?.length) {
+        return undefined;
+    }
+    return logprobs.map((entry) => ({
+        token: entry.token ?? '',
+        logprob: entry.logprob ?? 0,
+        ...(entry.bytes ? { bytes: entry.bytes } : {}),
+        ...(entry.top_logprobs?.length
+            ? {
+                topLogprobs: entry.top_logprobs.map((top) => ({
+                    token: top.token ?? '',
+                    logprob: top.logprob ?? 0,
+                    ...(top.bytes ? { bytes: top.bytes } : {}),
+                })),
+            }
+            : {}),
+    }));
+}
@@ -0,0 +1,155 @@
+/**
+ * Stream assembly helpers shared by the Chat Completions and Responses
+ * stream mappers and by stream consumers.
+ */
+
+import type { ProviderResponse, StreamChunk, ToolCall } from './index.js';
+
+/**
+ * Build the `tool_call_end` chunk for a fully received (or cut off) tool
+ * call, with the complete arguments and their parsed value or parse error.
+ */
+export function toolCallEndChunk(
+    toolCall: { id: string; index: number; name: string; arguments: string },
+    truncated = false
+): StreamChunk {
+    let parsed: { parsedArguments: unknown } | { parseError: string };
+    try {
+        parsed = { parsedArguments: JSON.parse(toolCall.arguments || '{}') };
+    } catch (error) {
+        parsed = { parseError: (error as Error).message };
+    }
+    return {
+        type: 'tool_call_end',
+        toolCall: {
+            id: toolCall.id,
+            index: toolCall.index,
+            name: toolCall.name,
+            arguments: toolCall.arguments,
+            ...parsed,
+            ...(truncated ? { truncated: true } : {}),
+        },
+    };
+}
+
+/**
+ * Accumulates stream chunks into the `ProviderResponse` that `execute`
+ * would have returned for the same call.
+ */
+export class StreamResponseCollector {
+    private readonly result: ProviderResponse;
+    private readonly toolCalls = new Map<number, ToolCall>();
+
+    constructor(model: string) {
+        this.result = { content: '', model };
+    }
+
+    add(chunk: StreamChunk): void {
+        const { toolCall } = chunk;
+        switch (chunk.type) {
+            case 'text':
+                this.result.content += chunk.text ?? '';
+                if (chunk.logprobs) {
+                    this.result.logprobs = [...(this.result.logprobs ?? []), ...chunk.logprobs];
+                }
+                break;
+            case 'refusal':
+                this.result.refusal = (this.result.refusal ?? '') + (chunk.refusal ?? '');
+                break;
+            case 'tool_call_start':
+                this.toolCalls.set(toolCall?.index ?? this.toolCalls.size, {
+                    id: toolCall?.id ?? '',
+                    type: 'function',
+                    function: { name: toolCall?.name ?? '', arguments: '' },
+                });
+                break;
+            case 'tool_call_delta': {
+                const existing = this.toolCalls.get(toolCall?.index ?? 0);
+                if (existing) {
+                    existing.function.arguments += toolCall?.argumentsDelta ?? '';
+                }
+                break;
+            }
+            case 'tool_call_end': {
+                // Carries the complete id, name and arguments
+                const index = toolCall?.index ?? this.toolCalls.size;
+                const existing = this.toolCalls.get(index);
+                this.toolCalls.set(index, {
+                    id: toolCall?.id || existing?.id || '',
+                    type: 'function',
+                    function: {
+                        name: toolCall?.name || existing?.function.name || '',
+                        arguments: toolCall?.arguments ?? existing?.function.arguments ?? '',
+                    },
+                });
+                break;
+            }
+            case 'usage':
+                this.result.usage = chunk.usage;
+                if (chunk.cost !== undefined) {
+                    this.result.cost = chunk.cost;
+                }
+                break;
+            case 'done':
+                if (chunk.finishReason) {
+                    this.result.finishReason = chunk.finishReason;
+                }
+                if (chunk.id) {
+                    this.result.id = chunk.id;
+                }
+                if (chunk.systemFingerprint) {
+                    this.result.systemFingerprint = chunk.systemFingerprint;
+                }
+                break;
+        }
+    }
+
+    /** The response assembled so far */
+    response(): ProviderResponse {
+        const toolCalls = [...this.toolCalls.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => ({ ...call, function: { ...call.function } }));
+        return { ...this.result, ...(toolCalls.length ? { toolCalls } : {}) };
+    }
+}
+
+/**
+ * Replay a complete response as the chunks `executeStream` would have
+ * emitted for it, ending with a `done` chunk that carries the response.
+ */
+export function responseToStreamChunks(response: ProviderResponse): StreamChunk[] {
+    const chunks: StreamChunk[] = [];
+    if (response.content) {
+        chunks.push({
+            type: 'text',
+            text: response.content,
+            ...(response.logprobs ? { logprobs: response.logprobs } : {}),
+        });
+    }
+    if (response.refusal) {
+        chunks.push({ type: 'refusal', refusal: response.refusal });
+    }
+    (response.toolCalls ?? []).forEach((call, index) => {
+        const { name, arguments: args } = call.function;
+        chunks.push({ type: 'tool_call_start', toolCall: { id: call.id, index, name } });
+        if (args) {
+            chunks.push({ type: 'tool_call_delta', toolCall: { index, argumentsDelta: args } });
+        }
+        chunks.push(toolCallEndChunk({ id: call.id, index, name, arguments: args }));
+    });
+    if (response.usage) {
+        chunks.push({
+            type: 'usage',
+            usage: response.usage,
+            ...(response.cost !== undefined ? { cost: response.cost } : {}),
+        });
+    }
+    chunks.push({
+        type: 'done',
+        ...(response.finishReason ? { finishReason: response.finishReason } : {}),
+        ...(response.id ? { id: response.id } : {}),
+        ...(response.systemFingerprint ? { systemFingerprint: response.systemFingerprint } : {}),
+        response,
+    });
+    return chunks;
+}
@@ -0,0 +1,259 @@
+/**
+ * Structured output.
+ *
+ * A request can describe the JSON it expects either with a JSON Schema
+ * descriptor in `responseFormat` or with a `validator` object. The schema is
+ * sent as a strict `json_schema` response format; the reply is parsed and
+ * validated, and validation failures can be sent back to the model for a
+ * repair round-trip.
+ */
+
+import Ajv, { type ValidateFunction } from 'ajv';
+import type OpenAI from 'openai';
+import type { Message, Request } from './index.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema descriptor for `Request.responseFormat`. Distinguished from a
+ * raw Chat Completions `response_format` by having no `type` field.
+ */
+export interface StructuredOutputFormat {
+    schema: JsonSchema;
+    /** Schema name reported to the model. Defaults to "response". */
+    name?: string;
+    description?: string;
+    /**
+     * Rewrite the schema for strict mode (closed objects, every property
+     * required, optional properties nullable). Defaults to true.
+     */
+    strict?: boolean;
+}
+
+export type ValidationResult<T> =
+    | { valid: true; value: T }
+    | { valid: false; errors: string[] };
+
+/**
+ * Validator for `Request.validator`. Accepts any of:
+ * - `{ validate(value) }` returning a boolean or `{ valid, errors?, value? }`
+ * - a zod-style `{ safeParse(value) }`
+ * Either may also carry a `schema` used to build the response format when
+ * `responseFormat` is not set.
+ */
+export type OutputValidator<T = unknown> = { schema?: JsonSchema } & (
+    | { validate(value: unknown): boolean | { valid: boolean; errors?: string[]; value?: T } }
+    | { safeParse(value: unknown): { success: boolean; data?: T; error?: { message?: string; issues?: unknown[] } } }
+);
+
+// `addUsedSchema: false` keeps schemas with an `$id` out of Ajv's registry,
+// which would otherwise reject compiling a second schema with the same `$id`
+const ajv = new Ajv({ allErrors: true, strict: false, addUsedSchema: false });
+const compiled = new WeakMap<JsonSchema, ValidateFunction>();
+// Strict schemas are rebuilt on every call, so equal schemas share a validator
+const compiledByJson = new Map<string, ValidateFunction>();
+
+export function isStructuredOutputFormat(format: unknown): format is StructuredOutputFormat {
+    return (
+        !!format &&
+        typeof format === 'object' &&
+        !('type' in format) &&
+        typeof (format as { schema?: unknown }).schema === 'object'
+    );
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+    const type = schema.type;
+    return type === 'object' || (Array.isArray(type) && type.includes('object')) || 'properties' in schema;
+}
+
+/**
+ * Allow `null` as well: added to `type`, and to `enum` or `const` when
+ * present, since those would still reject it.
+ */
+function makeNullable(schema: JsonSchema): JsonSchema {
+    const type = schema.type;
+    const result: JsonSchema = { ...schema };
+    if (typeof type === 'string') {
+        if (type !== 'null') {
+            result.type = [type, 'null'];
+        }
+    } else if (Array.isArray(type)) {
+        if (!type.includes('null')) {
+            result.type = [...type, 'null'];
+        }
+    } else {
+        return { anyOf: [schema, { type: 'null' }] };
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+        result.enum = [...schema.enum, null];
+    }
+    if ('const' in schema && schema.const !== null) {
+        result.enum = [schema.const, null];
+        delete result.const;
+    }
+    return result;
+}
+
+/**
+ * Rewrite a JSON Schema to satisfy OpenAI strict mode: every object is
+ * closed (`additionalProperties: false`) and lists all its properties as
+ * required, with originally-optional properties made nullable.
+ */
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+    const result: JsonSchema = { ...schema };
+
+    if (isObjectSchema(schema) && schema.properties && typeof schema.properties === 'object') {
+        const required = new Set((schema.required as string[] | undefined) ?? []);
+        const properties: Record<string, JsonSchema> = {};
+        for (const [key, value] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+            const strict = toStrictJsonSchema(value);
+            properties[key] = required.has(key) ? strict : makeNullable(strict);
+        }
+        result.properties = properties;
+        result.required = Object.keys(properties);
+        if (result.additionalProperties === undefined || result.additionalProperties === true) {
+            result.additionalProperties = false;
+        }
+    }
+
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+        result.items = toStrictJsonSchema(schema.items as JsonSchema);
+    }
+    for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+        if (Array.isArray(schema[keyword])) {
+            result[keyword] = (schema[keyword] as JsonSchema[]).map(toStrictJsonSchema);
+        }
+    }
+    for (const keyword of ['$defs', 'definitions'] as const) {
+        if (schema[keyword] && typeof schema[keyword] === 'object') {
+            result[keyword] = Object.fromEntries(
+                Object.entries(schema[keyword] as Record<string, JsonSchema>)
+                    .map(([name, def]) => [name, toStrictJsonSchema(def)])
+            );
+        }
+    }
+    return result;
+}
+
+/**
+ * Resolve the Chat Completions `response_format` for a request. Schema
+ * descriptors (and validators carrying a schema) become strict
+ * `json_schema` formats; anything else is passed through unchanged.
+ */
+export function resolveResponseFormat(request: Request): OpenAI.ChatCompletionCreateParams['response_format'] {
+    const format = request.responseFormat ?? (
+        request.validator?.schema ? { schema: request.validator.schema } : undefined
+    );
+    if (!isStructuredOutputFormat(format)) {
+        return format ?? undefined;
+    }
+    const strict = format.strict !== false;
+    return {
+        type: 'json_schema',
+        json_schema: {
+            name: format.name ?? 'response',
+            ...(format.description ? { description: format.description } : {}),
+            schema: strict ? toStrictJsonSchema(format.schema) : format.schema,
+            strict,
+        },
+    };
+}
+
+/**
+ * Whether the reply to a request should be parsed as JSON.
+ */
+export function expectsStructuredOutput(
+    request: Request,
+    responseFormat: OpenAI.ChatCompletionCreateParams['response_format']
+): boolean {
+    return (
+        request.validator != null ||
+        responseFormat?.type === 'json_schema' ||
+        responseFormat?.type === 'json_object'
+    );
+}
+
+function runValidator<T>(validator: OutputValidator<T>, value: unknown): ValidationResult<T> {
+    if ('safeParse' in validator) {
+        const result = validator.safeParse(value);
+        if (result.success) {
+            return { valid: true, value: result.data as T };
+        }
+        const issues = result.error?.issues?.map((issue) => JSON.stringify(issue));
+        return { valid: false, errors: issues?.length ? issues : [result.error?.message ?? 'Validation failed'] };
+    }
+    const result = validator.validate(value);
+    if (typeof result === 'boolean') {
+        return result ? { valid: true, value: value as T } : { valid: false, errors: ['Validation failed'] };
+    }
+    return result.valid
+        ? { valid: true, value: (result.value ?? value) as T }
+        : { valid: false, errors: result.errors?.length ? result.errors : ['Validation failed'] };
+}
+
+/**
+ * Validate a value against a JSON Schema. Compiled validators are cached
+ * per schema object and per schema content, so each distinct schema is
+ * compiled once.
+ */
+export function validateJsonSchema<T>(schema: JsonSchema, value: unknown): ValidationResult<T> {
+    let validate = compiled.get(schema);
+    if (!validate) {
+        const key = JSON.stringify(schema);
+        validate = compiledByJson.get(key);
+        if (!validate) {
+            validate = ajv.compile(schema);
+            compiledByJson.set(key, validate);
+        }
+        compiled.set(schema, validate);
+    }
+    if (validate(value)) {
+        return { valid: true, value: value as T };
+    }
+    return {
+        valid: false,
+        errors: (validate.errors ?? []).map((e) => `${e.instancePath || '/'} ${e.message ?? 'is invalid'}`),
+    };
+}
+
+/**
+ * Parse a reply as JSON and validate it with the request's validator, or
+ * else against the schema that was sent.
+ */
+export function parseStructuredOutput<T = unknown>(
+    content: string,
+    request: Request,
+    responseFormat: OpenAI.ChatCompletionCreateParams['response_format']
+): ValidationResult<T> {
+    let value: unknown;
+    try {
+        value = JSON.parse(content);
+    } catch (error) {
+        return { valid: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    if (request.validator) {
+        return runValidator(request.validator as OutputValidator<T>, value);
+    }
+    const schema = responseFormat?.type === 'json_schema' ? responseFormat.json_schema.schema : undefined;
+    return schema ? validateJsonSchema<T>(schema, value) : { valid: true, value: value as T };
+}
+
+/**
+ * Messages for a repair round-trip: the invalid reply followed by the
+ * validation errors and a request to answer again.
+ */
+export function buildRepairMessages(messages: Message[], content: string, errors: string[]): Message[] {
+    return [
+        ...messages,
+        { role: 'assistant', content },
+        {
+            role: 'user',
+            content:
+                'Your previous response did not match the required JSON schema:\n' +
+                errors.map((e) => `- ${e}`).join('\n') +
+                '\nRespond again with corrected JSON only.',
+        },
+    ];
+}
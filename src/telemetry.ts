@@ -0,0 +1,241 @@
+/**
+ * Observability: lifecycle hooks and OpenTelemetry spans.
+ *
+ * The tracer is typed structurally, so a `Tracer` from `@opentelemetry/api`
+ * can be passed in without this package depending on it. Spans follow the
+ * OpenTelemetry GenAI semantic conventions.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { getRedactor } from '@utilarium/offrecord';
+import type { Message, OpenAIApi, ProviderResponse, StreamChunk } from './index.js';
+
+export type TelemetryAttributeValue = string | number | boolean | string[] | number[];
+
+/** The subset of an OpenTelemetry `Span` used here */
+export interface TelemetrySpan {
+    setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error): unknown;
+    end(): unknown;
+}
+
+/** The subset of an OpenTelemetry `Tracer` used here */
+export interface TelemetryTracer {
+    startSpan(
+        name: string,
+        options?: { kind?: number; attributes?: Record<string, TelemetryAttributeValue> }
+    ): TelemetrySpan;
+}
+
+export interface TelemetryOptions {
+    tracer: TelemetryTracer;
+    /**
+     * Attach prompt and output messages to spans, redacted. Off by default
+     * since they may hold personal data.
+     */
+    recordContent?: boolean;
+}
+
+export interface CallInfo {
+    /** Correlates the events of one API call */
+    callId: string;
+    operation: 'execute' | 'executeStream';
+    api: OpenAIApi;
+    model: string;
+}
+
+export interface RequestEvent extends CallInfo {
+    /** 0 for the first attempt, then one more per retry */
+    attempt: number;
+    /** The request body, unredacted */
+    params: object;
+}
+
+export interface ResponseEvent extends CallInfo {
+    response: ProviderResponse;
+    /** `x-request-id`, when the SDK reports it */
+    requestId?: string;
+    /** Attempts made, including the successful one */
+    attempts: number;
+    latencyMs: number;
+    /** Streams only: time until the first chunk */
+    timeToFirstChunkMs?: number;
+}
+
+export interface ErrorEvent extends CallInfo {
+    error: Error;
+    attempts: number;
+    latencyMs: number;
+}
+
+export interface StreamChunkEvent extends CallInfo {
+    chunk: StreamChunk;
+    /** Time since the call started */
+    elapsedMs: number;
+}
+
+/**
+ * Lifecycle callbacks for `execute` and `executeStream`. A hook that throws
+ * is ignored so observability never fails a call.
+ */
+export interface ExecutionHooks {
+    /** Before every attempt, retries included */
+    onRequest?(event: RequestEvent): void;
+    onResponse?(event: ResponseEvent): void;
+    onError?(event: ErrorEvent): void;
+    onStreamChunk?(event: StreamChunkEvent): void;
+}
+
+// OpenTelemetry enum values, from @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+function callHook<T>(hook: ((event: T) => void) | undefined, event: T): void {
+    try {
+        hook?.(event);
+    } catch {
+        // Observability must not break the call
+    }
+}
+
+function serverAttributes(baseURL: string | undefined): Record<string, TelemetryAttributeValue> {
+    const url = new URL(baseURL ?? 'https://api.openai.com/v1');
+    const port = url.port ? Number(url.port) : url.protocol === 'http:' ? 80 : 443;
+    return { 'server.address': url.hostname, 'server.port': port };
+}
+
+function redactMessages(messages: unknown): string {
+    return getRedactor().redact(JSON.stringify(messages));
+}
+
+/**
+ * Reports one API call, across its retries, to the hooks and as a span.
+ */
+export class CallObserver {
+    private readonly info: CallInfo;
+    private readonly span?: TelemetrySpan;
+    private readonly startedAt = performance.now();
+    private attempts = 0;
+    private firstChunkMs?: number;
+    private ended = false;
+
+    constructor(
+        call: Omit<CallInfo, 'callId'> & {
+            baseURL?: string;
+            temperature?: number;
+            maxTokens?: number;
+            topP?: number;
+            seed?: number;
+            stop?: string | string[];
+            n?: number;
+            messages: Message[];
+        },
+        private readonly hooks: ExecutionHooks | undefined,
+        private readonly telemetry: TelemetryOptions | undefined
+    ) {
+        this.info = { callId: randomUUID(), operation: call.operation, api: call.api, model: call.model };
+        this.span = telemetry?.tracer.startSpan(`chat ${call.model}`, {
+            kind: SPAN_KIND_CLIENT,
+            attributes: {
+                'gen_ai.operation.name': 'chat',
+                'gen_ai.provider.name': 'openai',
+                'gen_ai.request.model': call.model,
+                ...(call.temperature !== undefined ? { 'gen_ai.request.temperature': call.temperature } : {}),
+                ...(call.maxTokens !== undefined ? { 'gen_ai.request.max_tokens': call.maxTokens } : {}),
+                ...(call.topP !== undefined ? { 'gen_ai.request.top_p': call.topP } : {}),
+                ...(call.seed !== undefined ? { 'gen_ai.request.seed': call.seed } : {}),
+                ...(call.stop !== undefined ? { 'gen_ai.request.stop_sequences': [call.stop].flat() } : {}),
+                ...(call.n !== undefined ? { 'gen_ai.request.choice.count': call.n } : {}),
+                ...serverAttributes(call.baseURL),
+                ...(telemetry?.recordContent ? { 'gen_ai.input.messages': redactMessages(call.messages) } : {}),
+            },
+        });
+    }
+
+    private elapsedMs(): number {
+        return performance.now() - this.startedAt;
+    }
+
+    request(attempt: number, params: object): void {
+        this.attempts = attempt + 1;
+        if (attempt > 0) {
+            this.span?.setAttribute('http.request.resend_count', attempt);
+        }
+        callHook(this.hooks?.onRequest, { ...this.info, attempt, params });
+    }
+
+    chunk(chunk: StreamChunk): void {
+        const elapsedMs = this.elapsedMs();
+        if (this.firstChunkMs === undefined) {
+            this.firstChunkMs = elapsedMs;
+            this.span?.setAttribute('gen_ai.response.time_to_first_chunk', elapsedMs / 1000);
+        }
+        callHook(this.hooks?.onStreamChunk, { ...this.info, chunk, elapsedMs });
+    }
+
+    response(response: ProviderResponse, requestId?: string): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        if (this.span) {
+            const attributes: Record<string, TelemetryAttributeValue> = {
+                'gen_ai.response.model': response.model,
+                ...(response.id ? { 'gen_ai.response.id': response.id } : {}),
+                ...(response.finishReason ? { 'gen_ai.response.finish_reasons': [response.finishReason] } : {}),
+                ...(response.usage
+                    ? {
+                        'gen_ai.usage.input_tokens': response.usage.inputTokens,
+                        'gen_ai.usage.output_tokens': response.usage.outputTokens,
+                    }
+                    : {}),
+                ...(response.systemFingerprint
+                    ? { 'openai.response.system_fingerprint': response.systemFingerprint }
+                    : {}),
+                ...(requestId ? { 'openai.request.id': requestId } : {}),
+                ...(this.telemetry?.recordContent
+                    ? {
+                        'gen_ai.output.messages': redactMessages([{
+                            role: 'assistant',
+                            content: response.refusal ?? response.content,
+                            ...(response.toolCalls ? { tool_calls: response.toolCalls } : {}),
+                        }]),
+                    }
+                    : {}),
+            };
+            for (const [key, value] of Object.entries(attributes)) {
+                this.span.setAttribute(key, value);
+            }
+            this.span.end();
+        }
+        callHook(this.hooks?.onResponse, {
+            ...this.info,
+            response,
+            ...(requestId ? { requestId } : {}),
+            attempts: this.attempts,
+            latencyMs: this.elapsedMs(),
+            ...(this.firstChunkMs !== undefined ? { timeToFirstChunkMs: this.firstChunkMs } : {}),
+        });
+    }
+
+    error(error: Error): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        if (this.span) {
+            this.span.setAttribute('error.type', error.name);
+            this.span.recordException(error);
+            this.span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+            this.span.end();
+        }
+        callHook(this.hooks?.onError, { ...this.info, error, attempts: this.attempts, latencyMs: this.elapsedMs() });
+    }
+}
+
+/** `x-request-id` that the SDK attaches to non-streaming results */
+export function getResponseRequestId(response: unknown): string | undefined {
+    const id = (response as { _request_id?: string | null } | undefined)?._request_id;
+    return id ?? undefined;
+}
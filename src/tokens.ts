@@ -0,0 +1,166 @@
+/**
+ * Token counting and context-window budgeting.
+ *
+ * Counts follow OpenAI's published accounting for Chat Completions: every
+ * message carries a fixed framing overhead, a `name` costs one extra token
+ * and the reply is primed with three more. Tool definitions are estimated
+ * from their serialized form, so totals are close to, but not exactly, what
+ * the API reports.
+ */
+
+import { get_encoding, type Tiktoken, type TiktokenEncoding } from 'tiktoken';
+import type { Message, ToolDefinition } from './index.js';
+import type { ContentPart } from './content.js';
+import { buildTools, getToolCalls } from './tools.js';
+import { baseModelName, getModelCapabilities } from './models.js';
+
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const REPLY_PRIMING_TOKENS = 3;
+const TOKENS_PER_TOOL = 8;
+/** Rough per-image prompt cost used for budgeting; the API bills by tile. */
+const IMAGE_TOKENS_LOW_DETAIL = 85;
+const IMAGE_TOKENS_HIGH_DETAIL = 765;
+
+/** First match wins, so more specific prefixes come first. */
+const ENCODING_BY_MODEL: Array<[RegExp, TiktokenEncoding]> = [
+    [/^(gpt-5|gpt-4\.1|gpt-4\.5|gpt-4o|chatgpt-4o|o\d)/, 'o200k_base'],
+    [/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)/, 'cl100k_base'],
+];
+
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * Name of the tiktoken encoding used by a model. Unknown models get
+ * `o200k_base`, the encoding of every current OpenAI chat model.
+ */
+export function getEncodingName(model: string): TiktokenEncoding {
+    const base = baseModelName(model);
+    return ENCODING_BY_MODEL.find(([pattern]) => pattern.test(base))?.[1] ?? 'o200k_base';
+}
+
+/**
+ * Get the (cached) tiktoken encoder for a model.
+ */
+export function getEncoding(model: string): Tiktoken {
+    const name = getEncodingName(model);
+    let encoding = encodings.get(name);
+    if (!encoding) {
+        encoding = get_encoding(name);
+        encodings.set(name, encoding);
+    }
+    return encoding;
+}
+
+/**
+ * Count the tokens in a piece of text for a model.
+ */
+export function countTokens(text: string, model: string): number {
+    if (!text) {
+        return 0;
+    }
+    return getEncoding(model).encode(text).length;
+}
+
+/**
+ * Context window of a model in tokens, or undefined when unknown.
+ */
+export function getContextWindow(model: string): number | undefined {
+    return getModelCapabilities(model)?.contextWindow;
+}
+
+/**
+ * Tokens for message content. Text parts are counted exactly, images get a
+ * fixed estimate, and audio/file parts are not estimated.
+ */
+function countContentTokens(content: Message['content'], model: string): number {
+    if (content == null) {
+        return 0;
+    }
+    if (typeof content === 'string') {
+        return countTokens(content, model);
+    }
+    return content.reduce((total: number, part: string | ContentPart) => {
+        if (typeof part === 'string') {
+            return total + countTokens(part, model);
+        }
+        if (part.type === 'text') {
+            return total + countTokens(part.text, model);
+        }
+        if (part.type === 'image') {
+            return total + (part.detail === 'low' ? IMAGE_TOKENS_LOW_DETAIL : IMAGE_TOKENS_HIGH_DETAIL);
+        }
+        return total;
+    }, 0);
+}
+
+/**
+ * Estimate the tokens used by tool definitions, based on the payload
+ * `buildTools` sends.
+ */
+export function countToolTokens(tools: ToolDefinition[] | undefined, model: string): number {
+    const openaiTools = buildTools(tools);
+    if (!openaiTools) {
+        return 0;
+    }
+    return openaiTools.reduce(
+        (total, tool) => total + TOKENS_PER_TOOL + countTokens(JSON.stringify(tool), model),
+        0
+    );
+}
+
+/**
+ * Count the prompt tokens for a list of messages, including per-message
+ * role overhead, reply priming and optional tool definitions.
+ */
+export function countMessageTokens(
+    messages: Message[],
+    model: string,
+    tools?: ToolDefinition[]
+): number {
+    let total = REPLY_PRIMING_TOKENS;
+    for (const message of messages) {
+        total += TOKENS_PER_MESSAGE;
+        total += countTokens(message.role, model);
+        total += countContentTokens(message.content, model);
+        if (message.name) {
+            total += TOKENS_PER_NAME + countTokens(message.name, model);
+        }
+        for (const toolCall of getToolCalls(message)) {
+            total += countTokens(toolCall.function.name + toolCall.function.arguments, model);
+        }
+    }
+    return total + countToolTokens(tools, model);
+}
+
+/**
+ * Drop the oldest conversation turns until the prompt fits in `budget`
+ * tokens. System and developer messages and the final message are always
+ * kept; tool results are dropped together with the assistant turn that
+ * requested them. Returns undefined when the prompt cannot be made to fit.
+ */
+export function trimMessagesToFit(
+    messages: Message[],
+    model: string,
+    budget: number,
+    tools?: ToolDefinition[]
+): Message[] | undefined {
+    const trimmed = [...messages];
+    const isPinned = (index: number) =>
+        index === trimmed.length - 1 ||
+        trimmed[index].role === 'system' ||
+        trimmed[index].role === 'developer';
+
+    while (countMessageTokens(trimmed, model, tools) > budget) {
+        const index = trimmed.findIndex((_, i) => !isPinned(i));
+        if (index === -1) {
+            return undefined;
+        }
+        trimmed.splice(index, 1);
+        // Orphaned tool results would be rejected by the API
+        while (index < trimmed.length - 1 && trimmed[index].role === 'tool') {
+            trimmed.splice(index, 1);
+        }
+    }
+    return trimmed;
+}
@@ -0,0 +1,74 @@
+/**
+ * Tool definition mapping for Chat Completions.
+ */
+
+import type OpenAI from 'openai';
+import type { Message, ToolCall, ToolChoice, ToolDefinition } from './index.js';
+import { toStrictJsonSchema, type JsonSchema } from './structured.js';
+
+// Strict rewrites by original schema, so every call sends and validates
+// against the same object
+const strictParameters = new WeakMap<JsonSchema, JsonSchema>();
+
+/**
+ * A tool's parameter schema as sent to the API: rewritten for strict mode
+ * when the tool opts in.
+ */
+export function toolParameters(tool: ToolDefinition): Record<string, unknown> {
+    const parameters = tool.parameters as unknown as JsonSchema;
+    if (!tool.strict) {
+        return parameters;
+    }
+    let strict = strictParameters.get(parameters);
+    if (!strict) {
+        strict = toStrictJsonSchema(parameters);
+        strictParameters.set(parameters, strict);
+    }
+    return strict;
+}
+
+/**
+ * Convert provider tool definitions into Chat Completions function tools.
+ */
+export function buildTools(tools: ToolDefinition[] | undefined): OpenAI.ChatCompletionTool[] | undefined {
+    if (!tools?.length) {
+        return undefined;
+    }
+    return tools.map((tool) => ({
+        type: 'function' as const,
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: toolParameters(tool),
+            ...(tool.strict !== undefined ? { strict: tool.strict } : {}),
+        },
+    }));
+}
+
+/**
+ * Convert a provider tool choice into a Chat Completions `tool_choice`.
+ */
+export function buildToolChoice(
+    toolChoice: ToolChoice | undefined
+): OpenAI.ChatCompletionToolChoiceOption | undefined {
+    if (toolChoice === undefined || typeof toolChoice === 'string') {
+        return toolChoice;
+    }
+    return { type: 'function', function: { name: toolChoice.name } };
+}
+
+/**
+ * The ID of the call a tool message answers. The snake_case
+ * `tool_call_id` of raw API messages is accepted too.
+ */
+export function getToolCallId(message: Message): string {
+    return message.toolCallId ?? (message as { tool_call_id?: string }).tool_call_id ?? '';
+}
+
+/**
+ * The tool calls requested by an assistant message. The snake_case
+ * `tool_calls` of raw API messages is accepted too.
+ */
+export function getToolCalls(message: Message): ToolCall[] {
+    return message.toolCalls ?? (message as { tool_calls?: ToolCall[] }).tool_calls ?? [];
+}
@@ -0,0 +1,95 @@
+/**
+ * Token usage and finish reason normalization.
+ *
+ * Chat Completions and the Responses API report usage and completion state
+ * in different shapes; both are mapped onto the provider's `Usage` and
+ * `FinishReason` here.
+ */
+
+import type OpenAI from 'openai';
+import type { FinishReason, Usage } from './index.js';
+
+/** Drop undefined fields so optional breakdowns only appear when reported. */
+function compact(usage: Usage): Usage {
+    return Object.fromEntries(
+        Object.entries(usage).filter(([, value]) => value !== undefined)
+    ) as unknown as Usage;
+}
+
+/**
+ * Convert Chat Completions usage, including the detailed breakdown.
+ */
+export function mapChatUsage(usage: OpenAI.CompletionUsage): Usage {
+    return compact({
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+        inputAudioTokens: usage.prompt_tokens_details?.audio_tokens,
+        outputAudioTokens: usage.completion_tokens_details?.audio_tokens,
+    });
+}
+
+/**
+ * Convert Responses API usage, including the detailed breakdown.
+ */
+export function mapResponsesUsage(usage: OpenAI.Responses.ResponseUsage): Usage {
+    return compact({
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        totalTokens: usage.total_tokens,
+        cachedInputTokens: usage.input_tokens_details?.cached_tokens,
+        reasoningTokens: usage.output_tokens_details?.reasoning_tokens,
+    });
+}
+
+/**
+ * Sum two usage records field by field, e.g. across repair round-trips.
+ */
+export function addUsage(a: Usage | undefined, b: Usage | undefined): Usage | undefined {
+    if (!a || !b) {
+        return b ?? a;
+    }
+    const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+    return compact({
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        totalTokens: sum(a.totalTokens, b.totalTokens),
+        cachedInputTokens: sum(a.cachedInputTokens, b.cachedInputTokens),
+        reasoningTokens: sum(a.reasoningTokens, b.reasoningTokens),
+        inputAudioTokens: sum(a.inputAudioTokens, b.inputAudioTokens),
+        outputAudioTokens: sum(a.outputAudioTokens, b.outputAudioTokens),
+    });
+}
+
+/**
+ * Normalize a Chat Completions finish reason. The legacy `function_call`
+ * reason is reported as `tool_calls`.
+ */
+export function normalizeChatFinishReason(reason: string | null | undefined): FinishReason | undefined {
+    switch (reason) {
+        case 'stop':
+        case 'length':
+        case 'tool_calls':
+        case 'content_filter':
+            return reason;
+        case 'function_call':
+            return 'tool_calls';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Derive a finish reason from a Responses API result's status.
+ */
+export function responsesFinishReason(response: OpenAI.Responses.Response): FinishReason | undefined {
+    if (response.status === 'incomplete') {
+        return response.incomplete_details?.reason === 'content_filter' ? 'content_filter' : 'length';
+    }
+    if (response.output?.some((item) => item.type === 'function_call')) {
+        return 'tool_calls';
+    }
+    return response.status === 'completed' ? 'stop' : undefined;
+}
@@ -0,0 +1,180 @@
+/**
+ * Cancelling execute/executeStream through ExecutionOptions.signal.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { Stream } from 'openai/streaming';
+import { AbortError, OpenAIProvider, SpendTracker } from '../src/index.js';
+
+function request() {
+    return {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Tell me a story' }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+/**
+ * A real SDK `Stream` over SSE that sends `deltas` and then stalls until the
+ * request's signal aborts. Like the SDK, it then ends without throwing.
+ */
+function stallingSseStream(deltas: string[]) {
+    return (_params: unknown, options: { signal?: AbortSignal }) => {
+        const controller = new AbortController();
+        options.signal?.addEventListener('abort', () => controller.abort());
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            start(stream) {
+                for (const content of deltas) {
+                    const chunk = { model: 'gpt-4o', choices: [{ index: 0, delta: { content } }] };
+                    stream.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+                }
+                controller.signal.addEventListener('abort', () => stream.error(
+                    Object.assign(new Error('This operation was aborted'), { name: 'AbortError' })
+                ));
+            },
+        });
+        return Promise.resolve(Stream.fromSSEResponse(new Response(body), controller));
+    };
+}
+
+/** Rejects like the SDK does once the request's signal aborts. */
+function pendingUntilAborted(_params: unknown, options: { signal?: AbortSignal }) {
+    return new Promise((_, reject) => {
+        options.signal?.addEventListener('abort', () => {
+            reject(Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' }));
+        });
+    });
+}
+
+describe('cancellation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('passes the signal to the SDK and rejects with AbortError', async () => {
+        mocks.create.mockImplementationOnce(pendingUntilAborted);
+        const controller = new AbortController();
+
+        const pending = new OpenAIProvider().execute(request(), { signal: controller.signal });
+        controller.abort();
+        const error = await pending.catch((e) => e);
+
+        expect(mocks.create.mock.calls[0][1]).toEqual({ signal: controller.signal });
+        expect(error).toBeInstanceOf(AbortError);
+        expect(error.name).toBe('AbortError');
+    });
+
+    it('stops waiting for a retry once aborted', async () => {
+        mocks.create.mockRejectedValue(
+            Object.assign(new Error('Bad gateway'), { status: 502, headers: { 'retry-after-ms': '10000' } })
+        );
+        const controller = new AbortController();
+
+        const pending = new OpenAIProvider().execute(request(), { signal: controller.signal, retries: 3 });
+        setTimeout(() => controller.abort(), 20);
+
+        await expect(pending).rejects.toBeInstanceOf(AbortError);
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports the partial text and estimated usage of an aborted stream', async () => {
+        const controller = new AbortController();
+        async function* chunks() {
+            yield { choices: [{ delta: { content: 'Once upon' } }] };
+            yield { choices: [{ delta: { content: ' a time' } }] };
+            controller.abort();
+            throw Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' });
+        }
+        mocks.create.mockResolvedValueOnce(chunks());
+        const tracker = new SpendTracker();
+
+        const texts: string[] = [];
+        const error = await (async () => {
+            const stream = new OpenAIProvider({ spendTracker: tracker })
+                .executeStream(request(), { signal: controller.signal });
+            for await (const chunk of stream) {
+                texts.push(chunk.text ?? '');
+            }
+        })().catch((e) => e);
+
+        expect(texts).toEqual(['Once upon', ' a time']);
+        expect(error).toBeInstanceOf(AbortError);
+        expect(error.text).toBe('Once upon a time');
+        expect(error.usage.inputTokens).toBeGreaterThan(0);
+        expect(error.usage.outputTokens).toBe(4);
+        expect(tracker.callCount).toBe(1);
+    });
+
+    it('rejects with AbortError when the SDK ends an aborted stream quietly', async () => {
+        mocks.create.mockImplementationOnce(stallingSseStream(['Once', ' upon', ' a time']));
+        const controller = new AbortController();
+        const onStreamStopped = vi.fn();
+
+        const types: string[] = [];
+        const error = await (async () => {
+            const stream = new OpenAIProvider().executeStream(request(), { signal: controller.signal, onStreamStopped });
+            for await (const chunk of stream) {
+                types.push(chunk.type);
+                if (types.length === 3) {
+                    controller.abort();
+                }
+            }
+        })().catch((e) => e);
+
+        expect(types).toEqual(['text', 'text', 'text']);
+        expect(error).toBeInstanceOf(AbortError);
+        expect(error.text).toBe('Once upon a time');
+        expect(onStreamStopped).toHaveBeenCalledWith(expect.objectContaining({ text: 'Once upon a time' }));
+    });
+
+    it('closes the underlying stream when the consumer breaks out', async () => {
+        let closed = false;
+        async function* chunks() {
+            try {
+                yield { choices: [{ delta: { content: 'Once' } }] };
+                yield { choices: [{ delta: { content: ' upon' } }] };
+                yield { choices: [{ delta: { content: ' a time' } }] };
+            } finally {
+                closed = true;
+            }
+        }
+        mocks.create.mockResolvedValueOnce(chunks());
+        const tracker = new SpendTracker();
+        const onStreamStopped = vi.fn();
+
+        const stream = new OpenAIProvider({ spendTracker: tracker }).executeStream(request(), { onStreamStopped });
+        for await (const chunk of stream) {
+            if (chunk.text === 'Once') {
+                break;
+            }
+        }
+
+        expect(closed).toBe(true);
+        expect(tracker.callCount).toBe(1);
+        expect(tracker.spent).toBeGreaterThan(0);
+        expect(onStreamStopped).toHaveBeenCalledOnce();
+        expect(onStreamStopped.mock.calls[0][0]).toEqual({
+            text: 'Once',
+            usage: { inputTokens: expect.any(Number), outputTokens: 1 },
+        });
+    });
+});
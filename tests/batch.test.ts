@@ -0,0 +1,107 @@
+/**
+ * Batch API round-trips through the mock server's Files and Batches
+ * endpoints.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+    BatchFailedError,
+    OpenAIProvider,
+    RateLimitError,
+    SpendTracker,
+    startMockOpenAIServer,
+    type BatchJob,
+    type MockOpenAIServer,
+} from '../src/index.js';
+
+function request(content: string) {
+    return {
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+describe('batch API', () => {
+    let server: MockOpenAIServer;
+    let provider: OpenAIProvider;
+
+    beforeAll(async () => {
+        server = await startMockOpenAIServer({ batchPolls: 2 });
+        provider = new OpenAIProvider({ apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456', baseURL: server.baseURL });
+    });
+
+    afterEach(() => {
+        server.requests.length = 0;
+    });
+
+    afterAll(async () => {
+        await provider.close();
+        await server.close();
+    });
+
+    it('uploads the bodies execute would send', async () => {
+        server.enqueue({ type: 'text', text: 'positive' }, { type: 'text', text: 'positive' });
+        await provider.execute(request('Great product'), { temperature: 0, maxTokens: 5 });
+        const sent = server.requests[0].body;
+
+        const job = await provider.submitBatch(
+            [{ customId: 'review-1', request: request('Great product') }],
+            { temperature: 0, maxTokens: 5, metadata: { run: 'nightly' } }
+        );
+
+        const upload = server.requests.find((r) => r.path === '/v1/files');
+        const line = JSON.parse(String(upload?.body).split('\r\n').find((l) => l.startsWith('{')) ?? '');
+        expect(line).toEqual({ custom_id: 'review-1', method: 'POST', url: '/v1/chat/completions', body: sent });
+        expect(job).toMatchObject({ status: 'validating', endpoint: '/v1/chat/completions', metadata: { run: 'nightly' } });
+    });
+
+    it('polls until completion and maps results back in input order', async () => {
+        const tracker = new SpendTracker();
+        const progress: BatchJob[] = [];
+        server.enqueue(
+            { type: 'text', text: 'positive', usage: { inputTokens: 1000, outputTokens: 10 } },
+            { type: 'error', status: 429, message: 'Slow down', code: 'rate_limit_exceeded' },
+            { type: 'text', text: 'negative' }
+        );
+
+        const { batch, results } = await provider.runBatch(
+            [request('Great product'), request('Meh'), request('Broke in a day')],
+            { spendTracker: tracker, pollIntervalMs: 1, onProgress: (job) => progress.push(job) }
+        );
+
+        expect(progress.map((job) => job.status)).toEqual(['in_progress', 'in_progress', 'completed']);
+        expect(batch.requestCounts).toEqual({ total: 3, completed: 2, failed: 1 });
+        expect(results.map((result) => result.customId)).toEqual(['request-0', 'request-1', 'request-2']);
+        expect(results[0].response).toMatchObject({ content: 'positive', finishReason: 'stop' });
+        expect(results[1].error).toBeInstanceOf(RateLimitError);
+        expect(results[1].error).toMatchObject({ code: 'rate_limit_exceeded', message: 'Slow down' });
+        expect(results[2].response?.content).toBe('negative');
+        // Billed at the batch discount
+        expect(results[0].response?.cost).toBeCloseTo((1000 * 0.15 + 10 * 0.6) / 1e6 / 2);
+        expect(tracker.callCount).toBe(2);
+    });
+
+    it('resumes a batch by id', async () => {
+        server.enqueue({ type: 'text', text: 'positive' });
+        const job = await provider.submitBatch([request('Great product')]);
+
+        const { results } = await provider.waitForBatch(job.id, { pollIntervalMs: 1 });
+
+        expect(results).toEqual([{ customId: 'request-0', response: expect.objectContaining({ content: 'positive' }) }]);
+    });
+
+    it('throws BatchFailedError when the batch fails validation', async () => {
+        const job = await provider.submitBatch([request('Great product')], { api: 'responses' });
+
+        await expect(provider.waitForBatch(job.id, { pollIntervalMs: 1 })).rejects.toBeInstanceOf(BatchFailedError);
+    });
+
+    it('rejects duplicate custom ids before uploading', async () => {
+        await expect(provider.submitBatch([
+            { customId: 'a', request: request('x') },
+            { customId: 'a', request: request('y') },
+        ])).rejects.toThrow('Duplicate batch customId "a"');
+        expect(server.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Response cache stores and their use by execute/executeStream, against the
+ * in-process mock server.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    FileCacheStore,
+    MemoryCacheStore,
+    OpenAIProvider,
+    responseCacheKey,
+    SpendTracker,
+    startMockOpenAIServer,
+    type CacheStore,
+    type MockOpenAIServer,
+    type StreamChunk,
+} from '../src/index.js';
+
+const apiKey = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+
+const request = {
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+    addMessage: () => undefined,
+} as any;
+
+const response = { content: 'Cold.', model: 'gpt-4o' };
+
+describe('MemoryCacheStore', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('evicts the least recently used entry', () => {
+        const store = new MemoryCacheStore({ maxEntries: 2 });
+        store.set('a', response);
+        store.set('b', response);
+        store.get('a');
+        store.set('c', response);
+
+        expect(store.get('a')).toEqual(response);
+        expect(store.get('b')).toBeUndefined();
+        expect(store.size).toBe(2);
+    });
+
+    it('expires entries after their TTL', () => {
+        vi.useFakeTimers();
+        const store = new MemoryCacheStore();
+        store.set('a', response, 1000);
+        store.set('b', response);
+
+        vi.advanceTimersByTime(1000);
+
+        expect(store.get('a')).toBeUndefined();
+        expect(store.get('b')).toEqual(response);
+    });
+});
+
+describe('FileCacheStore', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = mkdtempSync(join(tmpdir(), 'openai-cache-'));
+    });
+
+    afterAll(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('persists entries across instances until they expire or are deleted', async () => {
+        await new FileCacheStore(directory).set('a', response);
+        await new FileCacheStore(directory).set('b', response, -1);
+        const store = new FileCacheStore(directory);
+
+        expect(await store.get('a')).toEqual(response);
+        expect(await store.get('b')).toBeUndefined();
+        await store.delete('a');
+        expect(await store.get('a')).toBeUndefined();
+    });
+});
+
+describe('responseCacheKey', () => {
+    it('ignores property order', () => {
+        expect(responseCacheKey({ api: 'chat', params: { model: 'gpt-4o', temperature: 0 } }))
+            .toBe(responseCacheKey({ params: { temperature: 0, model: 'gpt-4o' }, api: 'chat' }));
+        expect(responseCacheKey({ api: 'chat', params: { model: 'gpt-4o', temperature: 0 } }))
+            .not.toBe(responseCacheKey({ api: 'chat', params: { model: 'gpt-4o', temperature: 1 } }));
+    });
+});
+
+describe('response cache', () => {
+    let server: MockOpenAIServer;
+    const providers: OpenAIProvider[] = [];
+
+    beforeAll(async () => {
+        server = await startMockOpenAIServer({ chunkSize: 4 });
+    });
+
+    afterEach(async () => {
+        server.requests.length = 0;
+        await Promise.all(providers.splice(0).map((provider) => provider.close()));
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    function createProvider(store: CacheStore = new MemoryCacheStore(), spendTracker?: SpendTracker) {
+        const provider = new OpenAIProvider({ apiKey, baseURL: server.baseURL, cache: { store }, spendTracker });
+        providers.push(provider);
+        return provider;
+    }
+
+    async function collect(provider: OpenAIProvider, options: Record<string, unknown> = {}): Promise<StreamChunk[]> {
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of provider.executeStream(request, options)) {
+            chunks.push(chunk);
+        }
+        return chunks;
+    }
+
+    it('serves repeated calls from the cache without spending', async () => {
+        const tracker = new SpendTracker();
+        const provider = createProvider(undefined, tracker);
+        server.enqueue({ type: 'text', text: 'Cold.', usage: { inputTokens: 1000, outputTokens: 100 } });
+
+        const first = await provider.execute(request, { temperature: 0 });
+        const second = await provider.execute(request, { temperature: 0 });
+
+        expect(server.requests).toHaveLength(1);
+        expect(first.cached).toBeUndefined();
+        expect(first.cost).toBeGreaterThan(0);
+        expect(second).toMatchObject({ content: 'Cold.', usage: first.usage, cost: 0, cached: true });
+        expect(tracker.callCount).toBe(1);
+    });
+
+    it('misses when the params differ or the call opts out', async () => {
+        const provider = createProvider();
+        server.enqueue(
+            { type: 'text', text: 'Cold.' },
+            { type: 'text', text: 'Chilly.' },
+            { type: 'text', text: 'Freezing.' }
+        );
+
+        await provider.execute(request, { temperature: 0 });
+        const warmer = await provider.execute(request, { temperature: 1 });
+        const bypassed = await provider.execute(request, { temperature: 0, cache: false });
+
+        expect(server.requests).toHaveLength(3);
+        expect(warmer.content).toBe('Chilly.');
+        expect(bypassed).toMatchObject({ content: 'Freezing.' });
+        expect(bypassed.cached).toBeUndefined();
+    });
+
+    it('replays cached responses as stream chunks', async () => {
+        const provider = createProvider();
+        server.enqueue({ type: 'tool_calls', toolCalls: [{ id: 'call_1', name: 'weather', arguments: { city: 'Oslo' } }] });
+
+        const live = await collect(provider);
+        const replayed = await collect(provider);
+
+        expect(server.requests).toHaveLength(1);
+        expect(replayed.map((chunk) => chunk.type)).toEqual([
+            'tool_call_start',
+            'tool_call_delta',
+            'tool_call_end',
+            'usage',
+            'done',
+        ]);
+        expect(replayed[2].toolCall).toMatchObject({ id: 'call_1', name: 'weather', parsedArguments: { city: 'Oslo' } });
+        expect(replayed.at(-1)).toMatchObject({
+            finishReason: 'tool_calls',
+            response: { ...live.at(-1)?.response, cost: 0, cached: true },
+        });
+    });
+
+    it('shares entries between execute and executeStream', async () => {
+        const provider = createProvider();
+        server.enqueue({ type: 'text', text: 'Cold.' });
+
+        await provider.execute(request);
+        const chunks = await collect(provider);
+
+        expect(server.requests).toHaveLength(1);
+        expect(chunks[0]).toEqual({ type: 'text', text: 'Cold.' });
+        expect(chunks.at(-1)?.response?.cached).toBe(true);
+    });
+
+    it('falls back to the network when the store fails', async () => {
+        const store: CacheStore = {
+            get: () => Promise.reject(new Error('connection refused')),
+            set: () => Promise.reject(new Error('connection refused')),
+            delete: () => undefined,
+        };
+        server.enqueue({ type: 'text', text: 'Cold.' });
+
+        const result = await createProvider(store).execute(request);
+
+        expect(result.content).toBe('Cold.');
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Record/replay cassettes, exercised through the real SDK against a local
+ * server and then offline.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    OpenAIProvider,
+    OpenAIProviderError,
+    createCassetteFetch,
+    hashRequestBody,
+    type StreamChunk,
+} from '../src/index.js';
+
+const apiKey = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+
+function request(content: string) {
+    return {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+function completion(content: string) {
+    return JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content, refusal: null }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    });
+}
+
+function sse(...events: unknown[]): string {
+    return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+describe('cassette transport', () => {
+    let server: Server;
+    let baseURL: string;
+    let dir: string;
+    let hits = 0;
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            hits++;
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const params = JSON.parse(body);
+                if (params.stream) {
+                    res.writeHead(200, { 'content-type': 'text/event-stream', 'x-request-id': 'req_2' });
+                    res.end(sse(
+                        { id: 'c', object: 'chat.completion.chunk', model: 'gpt-4o', choices: [{ index: 0, delta: { content: 'Hel' } }] },
+                        { id: 'c', object: 'chat.completion.chunk', model: 'gpt-4o', choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }] }
+                    ));
+                    return;
+                }
+                res.writeHead(200, { 'content-type': 'application/json', 'x-request-id': 'req_1' });
+                // Echo the key to check that recordings are scrubbed
+                res.end(completion(`Your key is ${req.headers.authorization?.slice(7)}`));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+        dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function stream(provider: OpenAIProvider): Promise<string> {
+        let text = '';
+        for await (const chunk of provider.executeStream(request('stream please'))) {
+            text += (chunk as StreamChunk).text ?? '';
+        }
+        return text;
+    }
+
+    it('records responses and SSE bodies with secrets redacted, then replays them offline', async () => {
+        const path = join(dir, 'nested', 'chat.json');
+
+        const recorder = new OpenAIProvider({ apiKey, baseURL, fetch: createCassetteFetch({ path, mode: 'record' }) });
+        const recorded = await recorder.execute(request('hello'));
+        expect(await stream(recorder)).toBe('Hello');
+        expect(hits).toBe(2);
+
+        const file = readFileSync(path, 'utf8');
+        const cassette = JSON.parse(file);
+        expect(cassette.entries).toHaveLength(2);
+        expect(cassette.entries[0].request).toMatchObject({ method: 'POST', path: '/v1/chat/completions' });
+        expect(cassette.entries[1].response.body).toContain('data: [DONE]');
+        expect(file).not.toContain(apiKey);
+
+        const player = new OpenAIProvider({ apiKey, baseURL, fetch: createCassetteFetch({ path, mode: 'replay' }) });
+        const replayed = await player.execute(request('hello'));
+        expect(replayed.id).toBe(recorded.id);
+        expect(replayed.content).toContain('[REDACTED]');
+        expect(await stream(player)).toBe('Hello');
+        expect(hits).toBe(2);
+    });
+
+    it('fails fast on requests missing from the cassette', async () => {
+        const player = new OpenAIProvider({
+            apiKey,
+            baseURL,
+            fetch: createCassetteFetch({ path: join(dir, 'empty.json'), mode: 'replay' }),
+        });
+
+        const error = await player.execute(request('unknown')).catch((e) => e);
+
+        expect(error).toBeInstanceOf(OpenAIProviderError);
+        expect(error.code).toBe('cassette_miss');
+    });
+
+    it('matches bodies regardless of key order', () => {
+        expect(hashRequestBody('{"a":1,"b":{"c":2,"d":3}}')).toBe(hashRequestBody('{"b":{"d":3,"c":2},"a":1}'));
+        expect(hashRequestBody('{"a":1}')).not.toBe(hashRequestBody('{"a":2}'));
+    });
+});
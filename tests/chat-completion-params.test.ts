@@ -55,7 +55,8 @@ describe('Chat completion request params', () => {
         expect(mocks.create).toHaveBeenCalledWith(
             expect.objectContaining({
                 max_completion_tokens: 500,
-            })
+            }),
+            expect.anything()
         );
         const arg = mocks.create.mock.calls[0][0] as Record<string, unknown>;
         expect(arg.max_tokens).toBeUndefined();
@@ -74,7 +75,8 @@ describe('Chat completion request params', () => {
 
         const arg = mocks.create.mock.calls[0][0] as Record<string, unknown>;
         expect(arg.temperature).toBeUndefined();
-        expect(arg.max_completion_tokens).toBe(100);
+        // maxTokens plus headroom for the default medium-effort reasoning
+        expect(arg.max_completion_tokens).toBe(100 + 8_192);
     });
 
     it('passes temperature for non-reasoning GPT models', async () => {
@@ -0,0 +1,138 @@
+/**
+ * Multimodal content parts are mapped onto Chat Completions content parts.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, UnsupportedContentError, type Message } from '../src/index.js';
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const PNG_BYTES = Buffer.from(PNG_BASE64, 'base64');
+// "RIFF" header bytes standing in for a WAV clip
+const WAV_BYTES = Buffer.from('RIFF0000WAVEfmt ', 'latin1');
+
+function request(model: string, messages: Message[]) {
+    return { model, messages, addMessage: () => undefined } as any;
+}
+
+function sentMessages(): Array<{ role: string; content: unknown }> {
+    return (mocks.create.mock.calls[0][0] as { messages: Array<{ role: string; content: unknown }> }).messages;
+}
+
+describe('multimodal content', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.create.mockResolvedValue({
+            choices: [{ message: { content: 'a pixel', refusal: null, role: 'assistant' } }],
+            model: 'gpt-4o',
+        });
+    });
+
+    it('maps image URLs, base64 strings and Buffers to image_url parts', async () => {
+        await new OpenAIProvider().execute(request('gpt-4o', [{
+            role: 'user',
+            content: [
+                'What is in these images?',
+                { type: 'image', url: 'https://example.com/cat.png', detail: 'low' },
+                { type: 'image', data: PNG_BASE64 },
+                { type: 'image', data: PNG_BYTES, mimeType: 'image/png', detail: 'high' },
+            ],
+        }]));
+
+        expect(sentMessages()[0].content).toEqual([
+            { type: 'text', text: 'What is in these images?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png', detail: 'low' } },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_BASE64}` } },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_BASE64}`, detail: 'high' } },
+        ]);
+    });
+
+    it('maps audio and file parts', async () => {
+        await new OpenAIProvider().execute(request('gpt-4o-audio-preview', [{
+            role: 'user',
+            content: [{ type: 'audio', data: WAV_BYTES, format: 'wav' }],
+        }]));
+        await new OpenAIProvider().execute(request('gpt-5.4', [{
+            role: 'user',
+            content: [
+                { type: 'file', fileId: 'file-abc' },
+                { type: 'file', data: Buffer.from('%PDF-1.4'), filename: 'doc.pdf' },
+            ],
+        }]));
+
+        expect(sentMessages()[0].content).toEqual([
+            { type: 'input_audio', input_audio: { data: WAV_BYTES.toString('base64'), format: 'wav' } },
+        ]);
+        const fileMessages = (mocks.create.mock.calls[1][0] as any).messages;
+        expect(fileMessages[0].content).toEqual([
+            { type: 'file', file: { file_id: 'file-abc' } },
+            {
+                type: 'file',
+                file: {
+                    file_data: `data:application/pdf;base64,${Buffer.from('%PDF-1.4').toString('base64')}`,
+                    filename: 'doc.pdf',
+                },
+            },
+        ]);
+    });
+
+    it('sends string arrays as text parts', async () => {
+        await new OpenAIProvider().execute(request('gpt-4o', [{ role: 'user', content: ['Hello', 'World'] }]));
+
+        expect(sentMessages()[0].content).toEqual([
+            { type: 'text', text: 'Hello' },
+            { type: 'text', text: 'World' },
+        ]);
+    });
+
+    it('rejects images for text-only models before calling the API', async () => {
+        const error = await new OpenAIProvider().execute(request('gpt-3.5-turbo', [{
+            role: 'user',
+            content: [{ type: 'image', url: 'https://example.com/cat.png' }],
+        }])).catch((e) => e);
+
+        expect(error).toBeInstanceOf(UnsupportedContentError);
+        expect(error.partType).toBe('image');
+        expect(mocks.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects audio for models without audio input', async () => {
+        await expect(new OpenAIProvider().execute(request('gpt-4o', [{
+            role: 'user',
+            content: [{ type: 'audio', data: WAV_BYTES, format: 'wav' }],
+        }]))).rejects.toBeInstanceOf(UnsupportedContentError);
+    });
+
+    it('rejects non-text parts outside user messages', async () => {
+        await expect(new OpenAIProvider().execute(request('gpt-4o', [{
+            role: 'system',
+            content: [{ type: 'image', url: 'https://example.com/cat.png' }],
+        }]))).rejects.toThrow('only supported on user messages');
+    });
+
+    it('allows any part for unknown models', async () => {
+        await new OpenAIProvider().execute(request('llava-local', [{
+            role: 'user',
+            content: [{ type: 'image', data: PNG_BYTES }],
+        }]));
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+    });
+});
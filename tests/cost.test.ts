@@ -0,0 +1,149 @@
+/**
+ * Cost estimation, price overrides and budget enforcement.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    BudgetExceededError,
+    OpenAIProvider,
+    SpendTracker,
+    estimateCost,
+    getModelPricing,
+    type StreamChunk,
+} from '../src/index.js';
+
+function reply(model = 'gpt-4o-2024-08-06') {
+    return {
+        model,
+        choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1_000_000, completion_tokens: 100_000 },
+    };
+}
+
+function request(model = 'gpt-4o') {
+    return {
+        model,
+        messages: [{ role: 'user', content: 'Hello' }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+describe('estimateCost', () => {
+    it('prices input and output per million tokens', () => {
+        expect(estimateCost({ inputTokens: 1_000_000, outputTokens: 1_000_000 }, 'gpt-4o')).toBeCloseTo(12.5);
+    });
+
+    it('bills cached input and reasoning tokens at their own rates', () => {
+        const pricing = { input: 2, cachedInput: 0.5, output: 8, reasoning: 4 };
+        const cost = estimateCost(
+            { inputTokens: 1_000_000, outputTokens: 1_000_000, cachedInputTokens: 500_000, reasoningTokens: 250_000 },
+            'custom-model',
+            { 'custom-model': pricing }
+        );
+        expect(cost).toBeCloseTo(0.5 * 2 + 0.5 * 0.5 + 0.75 * 8 + 0.25 * 4);
+    });
+
+    it('matches dated snapshots and returns undefined for unknown models', () => {
+        expect(getModelPricing('gpt-4o-mini-2024-07-18')?.input).toBe(0.15);
+        expect(estimateCost({ inputTokens: 10, outputTokens: 10 }, 'llama-3-70b')).toBeUndefined();
+    });
+
+    it('prices premium variants on their own instead of at family rates', () => {
+        expect(getModelPricing('o1-pro-2025-03-19')).toMatchObject({ input: 150, output: 600 });
+        expect(getModelPricing('o3-pro')).toMatchObject({ input: 20, output: 80 });
+        expect(getModelPricing('gpt-5-pro')).toMatchObject({ input: 15, output: 120 });
+        expect(getModelPricing('gpt-4.5-preview')).toMatchObject({ input: 75, output: 150 });
+        expect(getModelPricing('gpt-5.4-pro')).toBeUndefined();
+        expect(getModelPricing('o3')?.input).toBe(2);
+    });
+
+    it('only prices fine-tuned models through overrides', () => {
+        const model = 'ft:gpt-4o-mini-2024-07-18:acme::abc123';
+        expect(getModelPricing(model)).toBeUndefined();
+        expect(getModelPricing(model, { [model]: { input: 0.3, output: 1.2 } })).toEqual({ input: 0.3, output: 1.2 });
+    });
+});
+
+describe('spend tracking', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('reports the cost on the response and records it', async () => {
+        mocks.create.mockResolvedValueOnce(reply());
+        const tracker = new SpendTracker();
+
+        const response = await new OpenAIProvider({ spendTracker: tracker }).execute(request());
+
+        expect(response.cost).toBeCloseTo(3.5);
+        expect(tracker.spent).toBeCloseTo(3.5);
+        expect(tracker.callCount).toBe(1);
+        expect(tracker.remaining).toBeUndefined();
+    });
+
+    it('uses config price overrides for fine-tuned models', async () => {
+        const model = 'ft:gpt-4o-mini-2024-07-18:acme::abc123';
+        mocks.create.mockResolvedValueOnce(reply(model));
+
+        const response = await new OpenAIProvider({ pricing: { [model]: { input: 1, output: 10 } } })
+            .execute(request(model));
+
+        expect(response.cost).toBeCloseTo(2);
+    });
+
+    it('throws BudgetExceededError before sending once the budget is spent', async () => {
+        mocks.create.mockResolvedValue(reply());
+        const tracker = new SpendTracker({ budget: 5 });
+        const provider = new OpenAIProvider();
+
+        await provider.execute(request(), { spendTracker: tracker });
+        await provider.execute(request(), { spendTracker: tracker });
+        const error = await provider.execute(request(), { spendTracker: tracker }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(error.spent).toBeCloseTo(7);
+        expect(error.budget).toBe(5);
+        expect(mocks.create).toHaveBeenCalledTimes(2);
+        expect(tracker.remaining).toBe(0);
+    });
+
+    it('records the cost of streamed calls from the usage chunk', async () => {
+        async function* chunks() {
+            yield { choices: [{ delta: { content: 'ok' }, finish_reason: 'stop' }] };
+            yield { choices: [], usage: { prompt_tokens: 1_000_000, completion_tokens: 0 } };
+        }
+        mocks.create.mockResolvedValueOnce(chunks());
+        const tracker = new SpendTracker({ budget: 1 });
+
+        const received: StreamChunk[] = [];
+        for await (const chunk of new OpenAIProvider({ spendTracker: tracker }).executeStream(request())) {
+            received.push(chunk);
+        }
+
+        expect(received.find((c) => c.type === 'usage')?.cost).toBeCloseTo(2.5);
+        expect(tracker.spent).toBeCloseTo(2.5);
+        await expect(async () => {
+            for await (const _ of new OpenAIProvider({ spendTracker: tracker }).executeStream(request())) {
+                // drain
+            }
+        }).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Embedding requests: batching, base64 decoding, usage and cost.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        embeddings = {
+            create: mocks.create,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    AuthenticationError,
+    batchEmbeddingInputs,
+    ContextLengthExceededError,
+    decodeEmbedding,
+    OpenAIProvider,
+} from '../src/index.js';
+
+function base64(values: number[]): string {
+    return Buffer.from(new Float32Array(values).buffer).toString('base64');
+}
+
+// Answers each request with one vector per input, in reverse index order
+function reply(encode = (values: number[]): unknown => values) {
+    mocks.create.mockImplementation(async (params: { input: string[]; model: string }) => ({
+        object: 'list',
+        model: params.model,
+        data: params.input
+            .map((text, index) => ({ object: 'embedding', index, embedding: encode([text.length, index]) }))
+            .reverse(),
+        usage: { prompt_tokens: params.input.length * 10, total_tokens: params.input.length * 10 },
+    }));
+}
+
+describe('batchEmbeddingInputs', () => {
+    it('splits on the item and token limits, keeping order', () => {
+        const inputs = ['one', 'two', 'three', 'four', 'five'];
+
+        expect(batchEmbeddingInputs(inputs, 'text-embedding-3-small', { maxBatchItems: 2 }))
+            .toEqual([['one', 'two'], ['three', 'four'], ['five']]);
+        expect(batchEmbeddingInputs(inputs, 'text-embedding-3-small', { maxBatchTokens: 3 }))
+            .toEqual([['one', 'two', 'three'], ['four', 'five']]);
+    });
+
+    it('rejects a single input over the model limit', () => {
+        expect(() => batchEmbeddingInputs(['word '.repeat(9000)], 'text-embedding-3-small'))
+            .toThrow(ContextLengthExceededError);
+    });
+});
+
+describe('decodeEmbedding', () => {
+    it('decodes little-endian float32 vectors', () => {
+        expect(Array.from(decodeEmbedding(base64([0.5, -1, 2])))).toEqual([0.5, -1, 2]);
+    });
+});
+
+describe('OpenAIProvider.embed', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('batches inputs and returns vectors in input order with summed usage', async () => {
+        reply();
+        const provider = new OpenAIProvider();
+
+        const result = await provider.embed(['a', 'bb', 'ccc'], { maxBatchItems: 2, dimensions: 256 });
+
+        expect(mocks.create).toHaveBeenCalledTimes(2);
+        expect(mocks.create).toHaveBeenCalledWith(
+            { model: 'text-embedding-3-small', input: ['a', 'bb'], dimensions: 256 },
+            expect.anything()
+        );
+        expect(result.embeddings).toEqual([[1, 0], [2, 1], [3, 0]]);
+        expect(result.usage).toEqual({ inputTokens: 30, outputTokens: 0, totalTokens: 30 });
+        expect(result.cost).toBeCloseTo(30 * 0.02 / 1e6);
+    });
+
+    it('decodes base64 responses into Float32Arrays', async () => {
+        reply(base64);
+        const provider = new OpenAIProvider();
+
+        const result = await provider.embed('hello', { encodingFormat: 'base64', model: 'text-embedding-3-large' });
+
+        expect(mocks.create.mock.calls[0][0]).toMatchObject({ encoding_format: 'base64', model: 'text-embedding-3-large' });
+        expect(result.embeddings[0]).toBeInstanceOf(Float32Array);
+        expect(Array.from(result.embeddings[0])).toEqual([5, 0]);
+    });
+
+    it('validates the API key before calling the API', async () => {
+        const provider = new OpenAIProvider({ apiKey: 'not-a-key' });
+
+        await expect(provider.embed('hello')).rejects.toBeInstanceOf(AuthenticationError);
+        expect(mocks.create).not.toHaveBeenCalled();
+    });
+});
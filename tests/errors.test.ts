@@ -0,0 +1,114 @@
+/**
+ * Mapping SDK failures onto the typed error classes.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    AuthenticationError,
+    ContentFilterError,
+    ContextLengthExceededError,
+    OpenAIProviderError,
+    OpenAIProvider,
+    RateLimitError,
+    ServerError,
+    TimeoutError,
+} from '../src/index.js';
+
+const request = {
+    model: 'gpt-5.4',
+    messages: [{ role: 'user', content: 'hi' }],
+    addMessage: () => undefined,
+} as any;
+
+function apiError(status: number | undefined, fields: Record<string, unknown> = {}, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(fields.message as string ?? `${status} error`), {
+        name: 'APIError',
+        status,
+        headers,
+        ...fields,
+    });
+}
+
+async function failWith(error: unknown): Promise<any> {
+    mocks.create.mockRejectedValueOnce(error);
+    return new OpenAIProvider().execute(request, { retries: 0 }).catch((e) => e);
+}
+
+describe('typed errors', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('maps 429 to RateLimitError with retryAfterMs and requestId', async () => {
+        const error = await failWith(apiError(
+            429,
+            { code: 'rate_limit_exceeded', type: 'requests', requestID: 'req_123' },
+            { 'retry-after-ms': '1500' }
+        ));
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toBeInstanceOf(OpenAIProviderError);
+        expect(error).toMatchObject({
+            status: 429,
+            code: 'rate_limit_exceeded',
+            type: 'requests',
+            requestId: 'req_123',
+            retryAfterMs: 1500,
+        });
+    });
+
+    it('reads the request id from headers when the SDK does not set it', async () => {
+        const error = await failWith(apiError(500, {}, { 'x-request-id': 'req_456' }));
+        expect(error).toBeInstanceOf(ServerError);
+        expect(error.requestId).toBe('req_456');
+    });
+
+    it.each([
+        [apiError(401, { code: 'invalid_api_key' }), AuthenticationError],
+        [apiError(403), AuthenticationError],
+        [apiError(400, { code: 'context_length_exceeded', param: 'messages' }), ContextLengthExceededError],
+        [apiError(400, { code: 'content_policy_violation' }), ContentFilterError],
+        [apiError(408), TimeoutError],
+        [Object.assign(new Error('Request timed out.'), { name: 'APIConnectionTimeoutError' }), TimeoutError],
+        [apiError(503), ServerError],
+        [apiError(400, { code: 'invalid_value' }), OpenAIProviderError],
+    ])('maps %s', async (source, type) => {
+        expect(await failWith(source)).toBeInstanceOf(type);
+    });
+
+    it('redacts API keys from messages', async () => {
+        const error = await failWith(apiError(401, {
+            message: 'Incorrect API key provided: sk-abcdefghijklmnopqrstuvwxyz999999',
+        }));
+        expect(error.message).not.toContain('sk-abcdefghijklmnopqrstuvwxyz999999');
+        expect(error.message).toContain('[REDACTED]');
+    });
+
+    it('throws AuthenticationError for missing or malformed keys', async () => {
+        delete process.env.OPENAI_API_KEY;
+        await expect(new OpenAIProvider().execute(request)).rejects.toBeInstanceOf(AuthenticationError);
+
+        const error = await new OpenAIProvider().execute(request, { apiKey: 'not-a-key' }).catch((e) => e);
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error.code).toBe('invalid_api_key');
+        expect(mocks.create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * FallbackProvider: ordered targets across endpoints, routing rules,
+ * escalation on validation failure and `servedBy` reporting, against two
+ * mock servers.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+    AuthenticationError,
+    FallbackProvider,
+    isFallbackError,
+    OpenAIProvider,
+    RateLimitError,
+    ServerError,
+    startMockOpenAIServer,
+    type MockOpenAIServer,
+    type StreamChunk,
+} from '../src/index.js';
+
+const API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+
+function request(content = 'Say hi.', extra: Record<string, unknown> = {}) {
+    return {
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content }],
+        addMessage: () => undefined,
+        ...extra,
+    } as any;
+}
+
+describe('isFallbackError', () => {
+    it('moves on for overload and outages but not for auth failures', () => {
+        expect(isFallbackError(new RateLimitError('slow down', { status: 429 }))).toBe(true);
+        expect(isFallbackError(new ServerError('boom', { status: 500 }))).toBe(true);
+        expect(isFallbackError(new AuthenticationError('bad key', { status: 401 }))).toBe(false);
+        expect(isFallbackError(new Error('bug'))).toBe(false);
+    });
+});
+
+describe('FallbackProvider', () => {
+    let primary: MockOpenAIServer;
+    let backup: MockOpenAIServer;
+    let base: OpenAIProvider;
+
+    beforeAll(async () => {
+        primary = await startMockOpenAIServer();
+        backup = await startMockOpenAIServer();
+        base = new OpenAIProvider({ apiKey: API_KEY, retries: 0 });
+    });
+
+    beforeEach(() => {
+        primary.requests.length = 0;
+        backup.requests.length = 0;
+    });
+
+    afterAll(async () => {
+        await base.close();
+        await primary.close();
+        await backup.close();
+    });
+
+    function provider(overrides: Partial<ConstructorParameters<typeof FallbackProvider>[0]> = {}) {
+        return new FallbackProvider({
+            provider: base,
+            targets: [
+                { name: 'primary', model: 'gpt-4o', baseURL: primary.baseURL },
+                { name: 'backup', model: 'gpt-4o-mini', baseURL: backup.baseURL },
+            ],
+            ...overrides,
+        });
+    }
+
+    it('serves from the first target when it succeeds', async () => {
+        primary.enqueue({ type: 'text', text: 'Hi from primary' });
+
+        const response = await provider().execute(request());
+
+        expect(response.content).toBe('Hi from primary');
+        expect(primary.requests[0].body.model).toBe('gpt-4o');
+        expect(backup.requests).toHaveLength(0);
+        expect(response.servedBy).toEqual({
+            target: 'primary',
+            model: 'gpt-4o',
+            baseURL: primary.baseURL,
+            failures: [],
+        });
+    });
+
+    it('falls back on retryable errors and reports the failed targets', async () => {
+        primary.enqueue({ type: 'error', status: 503, message: 'Overloaded' });
+        backup.enqueue({ type: 'text', text: 'Hi from backup' });
+        const events: Array<{ from: string; to: string }> = [];
+
+        const response = await provider({ onFallback: ({ from, to }) => events.push({ from, to }) })
+            .execute(request());
+
+        expect(response.content).toBe('Hi from backup');
+        expect(backup.requests[0].body.model).toBe('gpt-4o-mini');
+        expect(response.servedBy?.target).toBe('backup');
+        expect(response.servedBy?.failures.map((failure) => failure.target)).toEqual(['primary']);
+        expect(response.servedBy?.failures[0].error).toBeInstanceOf(ServerError);
+        expect(events).toEqual([{ from: 'primary', to: 'backup' }]);
+    });
+
+    it('throws the last error when every target fails', async () => {
+        primary.enqueue({ type: 'error', status: 500 });
+        backup.enqueue({ type: 'error', status: 429, message: 'Rate limited' });
+
+        await expect(provider().execute(request())).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('does not fall back on authentication errors', async () => {
+        primary.enqueue({ type: 'error', status: 401, message: 'Invalid key', code: 'invalid_api_key' });
+
+        await expect(provider().execute(request())).rejects.toBeInstanceOf(AuthenticationError);
+        expect(backup.requests).toHaveLength(0);
+    });
+
+    it('routes long prompts to a large-context target', async () => {
+        backup.enqueue({ type: 'text', text: 'Summary' });
+        const routed = provider({
+            routes: [{
+                when: ({ promptTokens }) => promptTokens > 100,
+                targets: [{ name: 'long-context', model: 'gpt-4.1', baseURL: backup.baseURL }],
+            }],
+        });
+
+        const response = await routed.execute(request('lorem ipsum '.repeat(200)));
+
+        expect(backup.requests[0].body.model).toBe('gpt-4.1');
+        expect(primary.requests).toHaveLength(0);
+        expect(response.servedBy?.target).toBe('long-context');
+    });
+
+    it('escalates from a cheap model when structured output fails validation', async () => {
+        primary.enqueue({ type: 'text', text: 'not json' });
+        backup.enqueue({ type: 'text', text: '{"greeting":"hi"}' });
+        const escalating = provider({
+            targets: [
+                { name: 'cheap', model: 'gpt-4o-mini', baseURL: primary.baseURL, options: { structuredOutputRepairs: 0 } },
+                { name: 'strong', model: 'gpt-4o', baseURL: backup.baseURL },
+            ],
+        });
+        const schema = {
+            type: 'object',
+            properties: { greeting: { type: 'string' } },
+            required: ['greeting'],
+        };
+
+        const response = await escalating.execute(request('Greet me.', { responseFormat: { schema } }));
+
+        expect(response.parsed).toEqual({ greeting: 'hi' });
+        expect(response.servedBy?.target).toBe('strong');
+        expect(response.servedBy?.failures[0].error.name).toBe('StructuredOutputValidationError');
+    });
+
+    it('falls back before a stream starts and tags the final response', async () => {
+        primary.enqueue({ type: 'error', status: 502 });
+        backup.enqueue({ type: 'text', text: 'Streamed hi' });
+
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of provider().executeStream(request())) {
+            chunks.push(chunk);
+        }
+
+        const text = chunks.filter((chunk) => chunk.type === 'text').map((chunk) => chunk.text).join('');
+        expect(text).toBe('Streamed hi');
+        expect(chunks.at(-1)?.response?.servedBy?.target).toBe('backup');
+    });
+
+    it('does not replay a stream that failed after its first chunk', async () => {
+        primary.enqueue({ type: 'disconnect', text: 'Partial answer' });
+
+        await expect((async () => {
+            for await (const _ of provider().executeStream(request())) {
+                // drain
+            }
+        })()).rejects.toThrow();
+        expect(backup.requests).toHaveLength(0);
+    });
+});
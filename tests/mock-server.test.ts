@@ -0,0 +1,134 @@
+/**
+ * End-to-end runs of the real SDK against the in-process mock server.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+    OpenAIProvider,
+    RateLimitError,
+    ServerError,
+    startMockOpenAIServer,
+    type MockOpenAIServer,
+    type StreamChunk,
+} from '../src/index.js';
+
+const request = {
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+    addMessage: () => undefined,
+} as any;
+
+describe('mock OpenAI server', () => {
+    let server: MockOpenAIServer;
+    let provider: OpenAIProvider;
+
+    beforeAll(async () => {
+        server = await startMockOpenAIServer({ chunkSize: 4 });
+        provider = new OpenAIProvider({ apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456', baseURL: server.baseURL });
+    });
+
+    afterEach(() => {
+        server.requests.length = 0;
+    });
+
+    afterAll(async () => {
+        await provider.close();
+        await server.close();
+    });
+
+    async function collect(options: Record<string, unknown> = {}): Promise<StreamChunk[]> {
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of provider.executeStream(request, options)) {
+            chunks.push(chunk);
+        }
+        return chunks;
+    }
+
+    it('serves scripted JSON completions and records requests', async () => {
+        server.enqueue({ type: 'text', text: 'Cold.', usage: { inputTokens: 12, outputTokens: 2 } });
+
+        const response = await provider.execute(request);
+
+        expect(response).toMatchObject({
+            content: 'Cold.',
+            finishReason: 'stop',
+            usage: { inputTokens: 12, outputTokens: 2 },
+        });
+        expect(server.requests[0].path).toBe('/v1/chat/completions');
+        expect(server.requests[0].body.messages).toEqual([{ role: 'user', content: 'Weather in Oslo?' }]);
+    });
+
+    it('streams tool calls split across chunks', async () => {
+        server.enqueue({ type: 'tool_calls', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }] });
+
+        const chunks = await collect();
+
+        expect(chunks.filter((c) => c.type === 'tool_call_delta').length).toBeGreaterThan(1);
+        expect(chunks.find((c) => c.type === 'tool_call_end')?.toolCall).toMatchObject({
+            id: 'call_1',
+            name: 'get_weather',
+            parsedArguments: { city: 'Oslo' },
+        });
+        expect(chunks.at(-1)).toMatchObject({ type: 'done', finishReason: 'tool_calls' });
+    });
+
+    it('streams refusals', async () => {
+        server.enqueue({ type: 'refusal', refusal: 'I cannot help with that.' });
+
+        const chunks = await collect();
+
+        expect(chunks.at(-1)?.response?.refusal).toBe('I cannot help with that.');
+    });
+
+    it('retries a 429 after Retry-After and surfaces RateLimitError when out of retries', async () => {
+        server.enqueue({ type: 'error', status: 429, retryAfter: 0 }, { type: 'text', text: 'ok' });
+        expect((await provider.execute(request)).content).toBe('ok');
+        expect(server.requests).toHaveLength(2);
+
+        server.enqueue({ type: 'error', status: 429, code: 'rate_limit_exceeded', retryAfter: 2 });
+        const error = await provider.execute(request, { retries: 0 }).catch((e) => e);
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toMatchObject({ code: 'rate_limit_exceeded', retryAfterMs: 2000, requestId: 'req_3' });
+    });
+
+    it('surfaces 500s as ServerError', async () => {
+        server.enqueue({ type: 'error', status: 500 });
+        await expect(provider.execute(request, { retries: 0 })).rejects.toBeInstanceOf(ServerError);
+    });
+
+    it('fails a stream that disconnects midway without replaying it', async () => {
+        server.enqueue({ type: 'disconnect', text: 'It is cold and' }, { type: 'text', text: 'unused' });
+
+        const chunks: StreamChunk[] = [];
+        const error = await (async () => {
+            for await (const chunk of provider.executeStream(request)) {
+                chunks.push(chunk);
+            }
+        })().catch((e) => e);
+
+        expect(error).toBeInstanceOf(Error);
+        expect(chunks.map((c) => c.text).join('')).toBe('It is cold and');
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('answers malformed uploads and batch input with an error instead of hanging', async () => {
+        const badUpload = await fetch(`${server.baseURL}/files`, {
+            method: 'POST',
+            headers: { 'content-type': 'multipart/form-data; boundary=missing' },
+            body: 'not multipart',
+        });
+        expect(badUpload.status).toBe(400);
+
+        const form = new FormData();
+        form.append('purpose', 'batch');
+        form.append('file', new Blob(['{"custom_id": broken\n']), 'batch.jsonl');
+        const upload = await (await fetch(`${server.baseURL}/files`, { method: 'POST', body: form })).json();
+        const batch = await fetch(`${server.baseURL}/batches`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({ input_file_id: upload.id, endpoint: '/v1/chat/completions', completion_window: '24h' }),
+        });
+        expect(batch.status).toBe(400);
+        expect((await batch.json()).error.message).toContain('Mock server could not handle the request');
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Model capability registry: lookups, aliases, custom models, and how the
+ * provider shapes requests from it.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    getContextWindow,
+    getModelCapabilities,
+    getSupportedContentTypes,
+    ModelRegistry,
+    OpenAIProvider,
+    registerModel,
+    UnsupportedContentError,
+    UnsupportedFeatureError,
+} from '../src/index.js';
+
+function request(model: string, extra: Record<string, unknown> = {}) {
+    return {
+        model,
+        messages: [{ role: 'user', content: 'hi' }],
+        addMessage: () => undefined,
+        ...extra,
+    } as any;
+}
+
+describe('ModelRegistry', () => {
+    it('describes built-in families, snapshots and fine-tunes', () => {
+        const registry = new ModelRegistry();
+
+        expect(registry.get('gpt-4o-2024-08-06')).toMatchObject({
+            contextWindow: 128_000,
+            maxOutputTokens: 16_384,
+            temperature: true,
+            vision: true,
+            reasoningEffort: false,
+        });
+        expect(registry.get('o1-mini')).toMatchObject({ temperature: false, tools: false, vision: false });
+        expect(registry.get('ft:gpt-4.1-mini:acme:custom:id')?.contextWindow).toBe(1_047_576);
+        expect(registry.get('claude-3-opus')).toBeUndefined();
+    });
+
+    it('registers custom models, inheriting from the base of fine-tunes', () => {
+        const registry = new ModelRegistry()
+            .register('acme-llm', { contextWindow: 32_000, vision: false, aliases: ['fast'] })
+            .register('ft:gpt-4o-mini:acme:support:abc', { maxOutputTokens: 1_000 });
+
+        expect(registry.resolve('fast')).toBe('acme-llm');
+        expect(registry.get('FAST')).toMatchObject({ contextWindow: 32_000, vision: false, tools: true });
+        expect(registry.get('ft:gpt-4o-mini:acme:support:abc')).toMatchObject({
+            contextWindow: 128_000,
+            maxOutputTokens: 1_000,
+        });
+    });
+
+    it('lets later family patterns override built-ins', () => {
+        const registry = new ModelRegistry().register(/^gpt-4o-mini/, { temperature: false });
+
+        expect(registry.get('gpt-4o-mini')?.temperature).toBe(false);
+        expect(registry.get('gpt-4o')?.temperature).toBe(true);
+    });
+
+    it('feeds context windows and content types', () => {
+        expect(getContextWindow('gpt-4.5-preview')).toBe(128_000);
+        expect(getSupportedContentTypes('gpt-4-turbo')).toEqual(['text', 'image']);
+        expect(getSupportedContentTypes('o3-mini')).toEqual(['text']);
+        expect(getSupportedContentTypes('my-local-llama')).toBeUndefined();
+    });
+});
+
+describe('OpenAIProvider with the model registry', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.create.mockResolvedValue({
+            choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' }, finish_reason: 'stop' }],
+            model: 'gpt-4o',
+            usage: { prompt_tokens: 1, completion_tokens: 1 },
+        });
+    });
+
+    it('clamps maxTokens to the model output limit', async () => {
+        await new OpenAIProvider().execute(request('gpt-4-turbo'), { maxTokens: 50_000 });
+
+        expect(mocks.create.mock.calls[0][0].max_completion_tokens).toBe(4_096);
+    });
+
+    it('rejects features and content the model lacks', async () => {
+        const provider = new OpenAIProvider();
+        const tool = { name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: {} } };
+
+        await expect(provider.execute(request('o1-mini', { tools: [tool] })))
+            .rejects.toBeInstanceOf(UnsupportedFeatureError);
+        await expect(provider.execute(request('gpt-3.5-turbo', {
+            responseFormat: { schema: { type: 'object', properties: {} } },
+        }))).rejects.toMatchObject({ feature: 'structured output' });
+        await expect(provider.execute(request('gpt-3.5-turbo', {
+            messages: [{ role: 'user', content: [{ type: 'image', url: 'https://example.com/a.png' }] }],
+        }))).rejects.toBeInstanceOf(UnsupportedContentError);
+        expect(mocks.create).not.toHaveBeenCalled();
+    });
+
+    it('sends the registered model for an alias and honours its capabilities', async () => {
+        registerModel('ft:gpt-4o-mini:acme:support:abc', { temperature: false, aliases: ['support-bot'] });
+        const provider = new OpenAIProvider();
+
+        expect(provider.supportsModel('support-bot')).toBe(true);
+        await provider.execute(request('support-bot'), { temperature: 0.5 });
+
+        const params = mocks.create.mock.calls[0][0];
+        expect(params.model).toBe('ft:gpt-4o-mini:acme:support:abc');
+        expect(params.temperature).toBeUndefined();
+        expect(getModelCapabilities('support-bot')?.contextWindow).toBe(128_000);
+    });
+});
@@ -0,0 +1,133 @@
+/**
+ * Verifies SDK clients and HTTP connections are reused across calls.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+    clientOptions: [] as Array<Record<string, any>>,
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(options: Record<string, any>) {
+            mocks.clientOptions.push(options);
+        }
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider } from '../src/index.js';
+import { ClientPool } from '../src/pool.js';
+
+const request = {
+    model: 'gpt-5.4',
+    messages: [{ role: 'user', content: 'hi' }],
+    addMessage: () => undefined,
+} as any;
+
+describe('client pooling', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.clientOptions.length = 0;
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.create.mockResolvedValue({
+            choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' } }],
+            model: 'gpt-5.4',
+        });
+    });
+
+    it('reuses one client for calls with the same settings', async () => {
+        const provider = new OpenAIProvider();
+        await provider.execute(request);
+        await provider.execute(request);
+        await provider.execute(request, { model: 'gpt-4o' });
+
+        expect(mocks.create).toHaveBeenCalledTimes(3);
+        expect(mocks.clientOptions).toHaveLength(1);
+    });
+
+    it('creates separate clients for different keys and endpoints', async () => {
+        const provider = new OpenAIProvider();
+        await provider.execute(request);
+        await provider.execute(request, { apiKey: 'sk-zyxwvutsrqponmlkjihgfedcba654321' });
+        await provider.execute(request, { baseURL: 'http://localhost:9999/v1' });
+
+        expect(mocks.clientOptions).toHaveLength(3);
+    });
+
+    it('sends per-call headers and timeouts without creating clients', async () => {
+        const provider = new OpenAIProvider();
+        for (let i = 0; i < 5; i++) {
+            await provider.execute(request, { headers: { 'x-trace-id': `trace-${i}` }, timeout: 1000 + i });
+        }
+
+        expect(mocks.clientOptions).toHaveLength(1);
+        expect(mocks.create.mock.calls[4][1]).toMatchObject({ headers: { 'x-trace-id': 'trace-4' }, timeout: 1004 });
+    });
+
+    it('treats header order as irrelevant for the cache key', () => {
+        const pool = new ClientPool();
+        const a = pool.getClient({ apiKey: 'k', defaultHeaders: { a: '1', b: '2' } });
+        const b = pool.getClient({ apiKey: 'k', defaultHeaders: { b: '2', a: '1' } });
+        expect(a).toBe(b);
+        expect(pool.size).toBe(1);
+    });
+
+    it('forgets clients on close and rebuilds them lazily', async () => {
+        const provider = new OpenAIProvider();
+        await provider.execute(request);
+        await provider.close();
+        await provider.execute(request);
+
+        expect(mocks.clientOptions).toHaveLength(2);
+    });
+});
+
+describe('shared dispatcher', () => {
+    let server: Server;
+    let connections: number;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        connections = 0;
+        server = createServer((_req, res) => {
+            res.setHeader('content-type', 'application/json');
+            res.end('{"ok":true}');
+        });
+        server.on('connection', () => {
+            connections++;
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('keeps sockets alive across requests until the pool is closed', async () => {
+        const pool = new ClientPool({ connections: 1 });
+        pool.getClient({ apiKey: 'k' });
+        const pooledFetch = mocks.clientOptions.at(-1)!.fetch as typeof fetch;
+
+        for (let i = 0; i < 3; i++) {
+            const res = await pooledFetch(`${baseUrl}/v1/chat/completions`);
+            expect(await res.json()).toEqual({ ok: true });
+        }
+        expect(connections).toBe(1);
+
+        await pool.close();
+        await pooledFetch(`${baseUrl}/v1/chat/completions`).then((res) => res.text());
+        expect(connections).toBe(2);
+        await pool.close();
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Verifies OpenAIProviderConfig is applied to the SDK client and can be
+ * overridden per call.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+    clientOptions: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(options: Record<string, unknown>) {
+            mocks.clientOptions.push(options);
+        }
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, createOpenAIProvider } from '../src/index.js';
+
+const request = {
+    model: 'gpt-5.4',
+    messages: [{ role: 'user', content: 'hi' }],
+    addMessage: () => undefined,
+} as any;
+
+describe('OpenAIProvider configuration', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.clientOptions.length = 0;
+        delete process.env.OPENAI_API_KEY;
+        mocks.create.mockResolvedValue({
+            choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' } }],
+            model: 'gpt-5.4',
+        });
+    });
+
+    it('passes constructor config to the client', async () => {
+        const provider = new OpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: 'http://localhost:4000/v1',
+            organization: 'org-123',
+            project: 'proj_abc',
+            defaultHeaders: { 'X-Team': 'search' },
+            timeout: 5000,
+        });
+        await provider.execute(request);
+
+        expect(mocks.clientOptions[0]).toMatchObject({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: 'http://localhost:4000/v1',
+            organization: 'org-123',
+            project: 'proj_abc',
+            defaultHeaders: { 'X-Team': 'search' },
+            timeout: 5000,
+            maxRetries: 0,
+        });
+    });
+
+    it('lets per-call options override config', async () => {
+        const provider = createOpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: 'http://gateway-a/v1',
+            organization: 'org-a',
+            defaultHeaders: { 'X-Team': 'search', 'X-Env': 'prod' },
+            timeout: 5000,
+        });
+        await provider.execute(request, {
+            apiKey: 'sk-zyxwvutsrqponmlkjihgfedcba654321',
+            baseURL: 'http://gateway-b/v1',
+            organization: 'org-b',
+            headers: { 'X-Env': 'staging' },
+            timeout: 100,
+        });
+
+        expect(mocks.clientOptions[0]).toMatchObject({
+            apiKey: 'sk-zyxwvutsrqponmlkjihgfedcba654321',
+            baseURL: 'http://gateway-b/v1',
+            organization: 'org-b',
+            defaultHeaders: { 'X-Team': 'search', 'X-Env': 'prod' },
+            timeout: 5000,
+        });
+        // Per-call headers and timeout are merged over the client defaults by the SDK
+        expect(mocks.create.mock.calls[0][1]).toMatchObject({ headers: { 'X-Env': 'staging' }, timeout: 100 });
+    });
+
+    it('rejects non-OpenAI key formats by default', async () => {
+        const provider = new OpenAIProvider({ apiKey: 'local-gateway-key' });
+        await expect(provider.execute(request)).rejects.toThrow('Invalid OpenAI API key format');
+    });
+
+    it('accepts gateway keys when validation is disabled', async () => {
+        const provider = new OpenAIProvider({
+            apiKey: 'local-gateway-key',
+            baseURL: 'http://localhost:8000/v1',
+            validateApiKey: false,
+        });
+        await expect(provider.execute(request)).resolves.toMatchObject({ content: 'ok' });
+        expect(mocks.clientOptions[0]).toMatchObject({ apiKey: 'local-gateway-key' });
+    });
+});
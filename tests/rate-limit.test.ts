@@ -0,0 +1,204 @@
+/**
+ * Client-side rate limiter: buckets, concurrency, priorities, header
+ * adaptation, and its use by the provider against the mock server.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIProvider, RateLimiter, startMockOpenAIServer } from '../src/index.js';
+
+function headers(values: Record<string, string>) {
+    return new Headers(values);
+}
+
+async function flush() {
+    await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('RateLimiter', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('caps concurrency and reports queue depth', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const first = await limiter.acquire(0);
+        let secondStarted = false;
+        const second = limiter.acquire(0).then((permit) => {
+            secondStarted = true;
+            return permit;
+        });
+
+        await Promise.resolve();
+        expect(secondStarted).toBe(false);
+        expect(limiter.state).toMatchObject({ queueDepth: 1, active: 1, maxConcurrent: 1 });
+
+        first.release();
+        (await second).release();
+        expect(limiter.state).toMatchObject({ queueDepth: 0, active: 0 });
+    });
+
+    it('serves higher priorities first, then arrival order', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const blocker = await limiter.acquire(0);
+        const order: string[] = [];
+        const start = (name: string, priority: number) =>
+            limiter.acquire(0, { priority }).then((permit) => {
+                order.push(name);
+                permit.release();
+            });
+
+        const done = Promise.all([start('low', 0), start('high', 5), start('low-2', 0), start('mid', 1)]);
+        blocker.release();
+        await done;
+
+        expect(order).toEqual(['high', 'mid', 'low', 'low-2']);
+    });
+
+    it('waits for the request and token buckets to refill', async () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter({ requestsPerMinute: 60, tokensPerMinute: 6000 });
+        (await limiter.acquire(6000)).release();
+
+        let started = false;
+        void limiter.acquire(3000).then(() => {
+            started = true;
+        });
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(started).toBe(false);
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(started).toBe(true);
+    });
+
+    it('refunds overestimated tokens on release', async () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+        const permit = await limiter.acquire(800);
+        expect(limiter.state.availableTokens).toBe(200);
+
+        permit.release(300);
+
+        expect(limiter.state.availableTokens).toBe(700);
+    });
+
+    it('adapts to x-ratelimit headers', () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter({ tokensPerMinute: 100_000 });
+
+        limiter.updateFromHeaders(headers({
+            'x-ratelimit-limit-requests': '500',
+            'x-ratelimit-remaining-requests': '20',
+            'x-ratelimit-limit-tokens': '30000',
+            'x-ratelimit-remaining-tokens': '1200',
+        }));
+
+        expect(limiter.state).toMatchObject({
+            requestsPerMinute: 500,
+            availableRequests: 20,
+            tokensPerMinute: 30_000,
+            availableTokens: 1200,
+        });
+    });
+
+    it('ignores headers when adaptation is off', () => {
+        const limiter = new RateLimiter({ adaptFromHeaders: false });
+
+        limiter.updateFromHeaders(headers({ 'x-ratelimit-limit-requests': '500' }));
+
+        expect(limiter.state.requestsPerMinute).toBeUndefined();
+    });
+
+    it('drops aborted callers from the queue', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const blocker = await limiter.acquire(0);
+        const controller = new AbortController();
+        const waiting = limiter.acquire(0, { signal: controller.signal });
+
+        controller.abort();
+
+        await expect(waiting).rejects.toThrow();
+        expect(limiter.state.queueDepth).toBe(0);
+        blocker.release();
+    });
+
+    it('fires the queued head once a refill covers it', async () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter({ requestsPerMinute: 1 });
+        (await limiter.acquire(0)).release();
+        const next = limiter.acquire(0);
+        await flush();
+        expect(limiter.state.queueDepth).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        await expect(next).resolves.toBeDefined();
+    });
+});
+
+describe('OpenAIProvider with a rate limiter', () => {
+    it('limits calls and learns limits from response headers', async () => {
+        const server = await startMockOpenAIServer();
+        const limiter = new RateLimiter({ maxConcurrent: 2 });
+        const provider = new OpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: server.baseURL,
+            rateLimiter: limiter,
+        });
+        const request = {
+            model: 'gpt-4o',
+            messages: [{ role: 'user', content: 'hi' }],
+            addMessage: () => undefined,
+        } as any;
+        server.enqueue(
+            {
+                type: 'error',
+                status: 429,
+                code: 'rate_limit_exceeded',
+                headers: {
+                    'retry-after-ms': '1',
+                    'x-ratelimit-limit-requests': '100',
+                    'x-ratelimit-remaining-requests': '0',
+                },
+            },
+            { type: 'text', text: 'ok' }
+        );
+
+        try {
+            await expect(provider.execute(request, { retries: 0 })).rejects.toThrow();
+            expect(limiter.state).toMatchObject({ requestsPerMinute: 100, availableRequests: 0, active: 0 });
+
+            const started = Date.now();
+            await provider.execute(request);
+            // One request refills in 600ms at 100 requests per minute
+            expect(Date.now() - started).toBeGreaterThanOrEqual(500);
+            expect(limiter.state).toMatchObject({ active: 0, queueDepth: 0 });
+        } finally {
+            await provider.close();
+            await server.close();
+        }
+    });
+
+    it('reserves the tokens actually sent: reasoning headroom and trimmed messages', async () => {
+        const server = await startMockOpenAIServer();
+        const limiter = new RateLimiter();
+        const acquire = vi.spyOn(limiter, 'acquire');
+        const provider = new OpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: server.baseURL,
+            rateLimiter: limiter,
+        });
+        const request = (model: string, messages: unknown[]) => ({ model, messages, addMessage: () => undefined } as any);
+        server.enqueue({ type: 'text', text: 'ok' }, { type: 'text', text: 'ok' });
+
+        try {
+            await provider.execute(request('o3', [{ role: 'user', content: 'hi' }]), { maxTokens: 100 });
+            expect(acquire.mock.calls[0][0]).toBeGreaterThan(100 + 8_192);
+
+            const history = Array.from({ length: 40 }, (_, i) => ({ role: 'user', content: `${i} ${'word '.repeat(400)}` }));
+            await provider.execute(request('gpt-4', history), { maxTokens: 1_000, contextOverflow: 'trim' });
+            expect(acquire.mock.calls[1][0]).toBeLessThanOrEqual(8_192);
+        } finally {
+            await provider.close();
+            await server.close();
+        }
+    });
+});
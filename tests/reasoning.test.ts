@@ -0,0 +1,116 @@
+/**
+ * Reasoning controls: effort, verbosity and service tier validation, output
+ * headroom, and reasoning token reporting, against the mock server.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    getReasoningHeadroom,
+    OpenAIProvider,
+    startMockOpenAIServer,
+    UnsupportedFeatureError,
+    type MockOpenAIServer,
+    type StreamChunk,
+} from '../src/index.js';
+
+function request(model: string) {
+    return {
+        model,
+        messages: [{ role: 'user', content: 'Prove there are infinitely many primes.' }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+describe('getReasoningHeadroom', () => {
+    it('scales with the effort in force and skips non-reasoning models', () => {
+        expect(getReasoningHeadroom('o3')).toBe(8_192);
+        expect(getReasoningHeadroom('o3', 'high')).toBe(16_384);
+        expect(getReasoningHeadroom('gpt-5.4')).toBe(0);
+        expect(getReasoningHeadroom('gpt-5.4', 'low')).toBe(4_096);
+        expect(getReasoningHeadroom('gpt-4o', 'high')).toBe(0);
+        expect(getReasoningHeadroom('my-local-llama', 'high')).toBe(0);
+    });
+});
+
+describe('reasoning options', () => {
+    let server: MockOpenAIServer;
+    let provider: OpenAIProvider;
+
+    beforeAll(async () => {
+        server = await startMockOpenAIServer();
+        provider = new OpenAIProvider({ apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456', baseURL: server.baseURL });
+    });
+
+    afterAll(async () => {
+        await provider.close();
+        await server.close();
+    });
+
+    it('sends effort, verbosity and service tier with reasoning headroom', async () => {
+        server.enqueue({ type: 'text', text: 'Suppose not.' });
+
+        await provider.execute(request('gpt-5-mini'), {
+            reasoningEffort: 'minimal',
+            verbosity: 'low',
+            serviceTier: 'flex',
+            maxTokens: 500,
+        });
+
+        expect(server.requests.at(-1)?.body).toMatchObject({
+            model: 'gpt-5-mini',
+            reasoning_effort: 'minimal',
+            verbosity: 'low',
+            service_tier: 'flex',
+            max_completion_tokens: 500 + 1_024,
+        });
+    });
+
+    it('sends maxTokens unchanged when headroom is disabled', async () => {
+        server.enqueue({ type: 'text', text: 'Suppose not.' });
+
+        await provider.execute(request('o4-mini'), { maxTokens: 500, reasoningHeadroom: 0 });
+
+        expect(server.requests.at(-1)?.body.max_completion_tokens).toBe(500);
+    });
+
+    it('drops sampling parameters on GPT-5.1+ only while they reason', async () => {
+        server.enqueue({ type: 'text', text: 'Suppose not.' }, { type: 'text', text: 'Suppose not.' });
+        const sampling = { temperature: 0.2, topP: 0.9, logprobs: true };
+
+        await provider.execute(request('gpt-5.4'), sampling);
+        expect(server.requests.at(-1)?.body).toMatchObject({ temperature: 0.2, top_p: 0.9, logprobs: true });
+
+        await provider.execute(request('gpt-5.4'), { ...sampling, reasoningEffort: 'high' });
+        const body = server.requests.at(-1)?.body;
+        expect(body.reasoning_effort).toBe('high');
+        for (const key of ['temperature', 'top_p', 'logprobs']) {
+            expect(body).not.toHaveProperty(key);
+        }
+    });
+
+    it('rejects options the model does not accept before sending', async () => {
+        const sent = server.requests.length;
+
+        await expect(provider.execute(request('gpt-4o'), { reasoningEffort: 'low' }))
+            .rejects.toBeInstanceOf(UnsupportedFeatureError);
+        await expect(provider.execute(request('o3'), { reasoningEffort: 'minimal' }))
+            .rejects.toThrow("does not support reasoning effort 'minimal'");
+        await expect(provider.execute(request('o3'), { verbosity: 'high' }))
+            .rejects.toMatchObject({ feature: 'verbosity' });
+        expect(server.requests).toHaveLength(sent);
+    });
+
+    it('reports reasoning tokens on responses and stream usage chunks', async () => {
+        const usage = { inputTokens: 20, outputTokens: 300, reasoningTokens: 256 };
+        server.enqueue({ type: 'text', text: 'Suppose not.', usage }, { type: 'text', text: 'Suppose not.', usage });
+
+        const response = await provider.execute(request('o3'));
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of provider.executeStream(request('o3'))) {
+            chunks.push(chunk);
+        }
+
+        expect(response.usage).toMatchObject({ outputTokens: 300, reasoningTokens: 256 });
+        expect(chunks.find((chunk) => chunk.type === 'usage')?.usage).toMatchObject({ reasoningTokens: 256 });
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Routing execute/executeStream through the Responses API.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    chatCreate: vi.fn(),
+    responsesCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.chatCreate,
+            },
+        };
+        responses = {
+            create: mocks.responsesCreate,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, type StreamChunk, type ToolDefinition } from '../src/index.js';
+
+const weatherTool: ToolDefinition = {
+    name: 'get_weather',
+    description: 'Get the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+};
+
+function request(extra: Record<string, unknown> = {}) {
+    return {
+        model: 'gpt-5.4',
+        messages: [
+            { role: 'developer', content: 'Be brief.' },
+            { role: 'user', content: 'Weather in Oslo?' },
+        ],
+        addMessage: () => undefined,
+        ...extra,
+    } as any;
+}
+
+describe('Responses API backend', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('maps messages, tools, format and options onto responses.create', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({
+            id: 'resp_1',
+            model: 'gpt-5.4',
+            output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: '{}' }] }],
+        });
+
+        await new OpenAIProvider({ api: 'responses' }).execute(
+            request({
+                tools: [weatherTool],
+                responseFormat: {
+                    type: 'json_schema',
+                    json_schema: { name: 'answer', schema: { type: 'object' }, strict: true },
+                },
+            }),
+            { maxTokens: 200, temperature: 0.3, previousResponseId: 'resp_0' }
+        );
+
+        expect(mocks.chatCreate).not.toHaveBeenCalled();
+        expect(mocks.responsesCreate.mock.calls[0][0]).toEqual({
+            model: 'gpt-5.4',
+            input: [
+                { role: 'developer', content: 'Be brief.' },
+                { role: 'user', content: 'Weather in Oslo?' },
+            ],
+            tools: [{
+                type: 'function',
+                name: 'get_weather',
+                description: 'Get the weather',
+                parameters: weatherTool.parameters,
+                strict: false,
+            }],
+            text: { format: { type: 'json_schema', name: 'answer', schema: { type: 'object' }, strict: true } },
+            max_output_tokens: 200,
+            temperature: 0.3,
+            previous_response_id: 'resp_0',
+        });
+    });
+
+    it('nests reasoning effort and verbosity the Responses way', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({ id: 'resp_1', model: 'gpt-5.4', output: [] });
+
+        await new OpenAIProvider({ api: 'responses' }).execute(request(), {
+            reasoningEffort: 'high',
+            verbosity: 'medium',
+            serviceTier: 'priority',
+        });
+
+        expect(mocks.responsesCreate.mock.calls[0][0]).toMatchObject({
+            reasoning: { effort: 'high' },
+            text: { verbosity: 'medium' },
+            service_tier: 'priority',
+        });
+    });
+
+    it('maps tool call history onto function_call items', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({ id: 'resp_2', model: 'gpt-5.4', output: [] });
+
+        await new OpenAIProvider().execute(
+            request({
+                messages: [
+                    { role: 'user', content: 'Weather in Oslo?' },
+                    {
+                        role: 'assistant',
+                        content: null,
+                        tool_calls: [{
+                            id: 'call_1',
+                            type: 'function',
+                            function: { name: 'get_weather', arguments: '{"city":"Oslo"}' },
+                        }],
+                    },
+                    { role: 'tool', content: '{"temp":3}', tool_call_id: 'call_1' },
+                ],
+            }),
+            { api: 'responses' }
+        );
+
+        expect(mocks.responsesCreate.mock.calls[0][0].input).toEqual([
+            { role: 'user', content: 'Weather in Oslo?' },
+            { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            { type: 'function_call_output', call_id: 'call_1', output: '{"temp":3}' },
+        ]);
+    });
+
+    it('maps output items back to a ProviderResponse', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({
+            id: 'resp_3',
+            model: 'gpt-5.4-2026-03-05',
+            output: [
+                { type: 'reasoning', id: 'rs_1', summary: [] },
+                {
+                    type: 'message',
+                    role: 'assistant',
+                    content: [{ type: 'output_text', text: 'Checking.', annotations: [] }],
+                },
+                { type: 'function_call', call_id: 'call_9', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            ],
+            usage: { input_tokens: 12, output_tokens: 7 },
+        });
+
+        const response = await new OpenAIProvider().execute(request(), { api: 'responses' });
+
+        expect(response).toEqual({
+            id: 'resp_3',
+            content: 'Checking.',
+            finishReason: 'tool_calls',
+            model: 'gpt-5.4-2026-03-05',
+            usage: { inputTokens: 12, outputTokens: 7 },
+            cost: expect.any(Number),
+            toolCalls: [{
+                id: 'call_9',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            }],
+        });
+    });
+
+    it('maps stream events onto the same chunks as Chat Completions', async () => {
+        async function* events() {
+            yield { type: 'response.created', response: {} };
+            yield { type: 'response.output_item.added', output_index: 0, item: { type: 'reasoning' } };
+            yield { type: 'response.output_text.delta', output_index: 1, delta: 'Hi' };
+            yield {
+                type: 'response.output_item.added',
+                output_index: 2,
+                item: { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '' },
+            };
+            yield { type: 'response.function_call_arguments.delta', output_index: 2, delta: '{"city":' };
+            yield { type: 'response.function_call_arguments.delta', output_index: 2, delta: '"Oslo"}' };
+            yield { type: 'response.output_item.done', output_index: 2, item: { type: 'function_call' } };
+            yield { type: 'response.completed', response: { usage: { input_tokens: 5, output_tokens: 9 } } };
+        }
+        mocks.responsesCreate.mockResolvedValueOnce(events());
+
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of new OpenAIProvider({ api: 'responses' }).executeStream(request())) {
+            chunks.push(chunk);
+        }
+
+        expect(mocks.responsesCreate.mock.calls[0][0]).toMatchObject({ stream: true });
+        expect(chunks).toEqual([
+            { type: 'text', text: 'Hi' },
+            { type: 'tool_call_start', toolCall: { id: 'call_1', index: 0, name: 'get_weather' } },
+            { type: 'tool_call_delta', toolCall: { index: 0, argumentsDelta: '{"city":' } },
+            { type: 'tool_call_delta', toolCall: { index: 0, argumentsDelta: '"Oslo"}' } },
+            {
+                type: 'tool_call_end',
+                toolCall: {
+                    id: 'call_1',
+                    index: 0,
+                    name: 'get_weather',
+                    arguments: '{"city":"Oslo"}',
+                    parsedArguments: { city: 'Oslo' },
+                },
+            },
+            { type: 'usage', usage: { inputTokens: 5, outputTokens: 9 }, cost: expect.any(Number) },
+            { type: 'done', response: expect.any(Object) },
+        ]);
+    });
+
+    it('surfaces failed responses as errors', async () => {
+        async function* events() {
+            yield { type: 'response.failed', response: { error: { message: 'server had an error' } } };
+        }
+        mocks.responsesCreate.mockResolvedValueOnce(events());
+
+        await expect((async () => {
+            for await (const _ of new OpenAIProvider().executeStream(request(), { api: 'responses', retries: 0 })) {
+                // drain
+            }
+        })()).rejects.toThrow();
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Retry/backoff behaviour for execute and executeStream.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+    clientOptions: [] as unknown[],
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(options: unknown) {
+            mocks.clientOptions.push(options);
+        }
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, type StreamChunk } from '../src/index.js';
+import {
+    computeRetryDelayMs,
+    getServerRetryDelayMs,
+    isRetryableError,
+    parseResetDuration,
+    DEFAULT_RETRY_POLICY,
+} from '../src/retry.js';
+
+function apiError(status: number, headers: Record<string, string> = {}, code?: string) {
+    return Object.assign(new Error(`status ${status}`), {
+        status,
+        headers: new Headers(headers),
+        code,
+    });
+}
+
+const request = {
+    model: 'gpt-5.4',
+    messages: [{ role: 'user', content: 'hi' }],
+    addMessage: () => undefined,
+} as any;
+
+const okResponse = {
+    choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' } }],
+    model: 'gpt-5.4',
+    usage: { prompt_tokens: 1, completion_tokens: 1 },
+};
+
+describe('retry classification', () => {
+    it('retries rate limits, server errors and connection failures', () => {
+        expect(isRetryableError(apiError(429))).toBe(true);
+        expect(isRetryableError(apiError(500))).toBe(true);
+        expect(isRetryableError(apiError(503))).toBe(true);
+        expect(isRetryableError(Object.assign(new Error('conn'), { name: 'APIConnectionError' }))).toBe(true);
+        expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    });
+
+    it('does not retry client errors, content policy or exhausted quota', () => {
+        expect(isRetryableError(apiError(400))).toBe(false);
+        expect(isRetryableError(apiError(401))).toBe(false);
+        expect(isRetryableError(apiError(400, {}, 'content_policy_violation'))).toBe(false);
+        expect(isRetryableError(apiError(429, {}, 'insufficient_quota'))).toBe(false);
+        expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+
+    it('obeys x-should-retry', () => {
+        expect(isRetryableError(apiError(400, { 'x-should-retry': 'true' }))).toBe(true);
+        expect(isRetryableError(apiError(500, { 'x-should-retry': 'false' }))).toBe(false);
+    });
+});
+
+describe('retry delays', () => {
+    it('parses rate limit reset durations', () => {
+        expect(parseResetDuration('20ms')).toBe(20);
+        expect(parseResetDuration('1s')).toBe(1000);
+        expect(parseResetDuration('6m0s')).toBe(360_000);
+        expect(parseResetDuration('1h2m3.5s')).toBe(3_723_500);
+        expect(parseResetDuration('soon')).toBeUndefined();
+    });
+
+    it('prefers retry-after-ms, then Retry-After, then rate limit resets', () => {
+        expect(getServerRetryDelayMs(apiError(429, { 'retry-after-ms': '250', 'retry-after': '9' }))).toBe(250);
+        expect(getServerRetryDelayMs(apiError(429, { 'retry-after': '2' }))).toBe(2000);
+        expect(getServerRetryDelayMs(apiError(429, {
+            'x-ratelimit-reset-requests': '1s',
+            'x-ratelimit-reset-tokens': '1.5s',
+        }))).toBe(1500);
+        expect(getServerRetryDelayMs(apiError(500))).toBeUndefined();
+    });
+
+    it('uses jittered exponential backoff capped at maxDelayMs', () => {
+        const policy = { retries: 5, initialDelayMs: 100, maxDelayMs: 1000 };
+        expect(computeRetryDelayMs(apiError(500), 0, policy, () => 0.5)).toBe(50);
+        expect(computeRetryDelayMs(apiError(500), 2, policy, () => 0.5)).toBe(200);
+        expect(computeRetryDelayMs(apiError(500), 10, policy, () => 0.999)).toBe(999);
+        expect(computeRetryDelayMs(apiError(429, { 'retry-after': '120' }), 0, DEFAULT_RETRY_POLICY))
+            .toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+    });
+});
+
+describe('OpenAIProvider retries', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.clientOptions.length = 0;
+        vi.useFakeTimers();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('disables SDK retries and passes timeout with the request', async () => {
+        mocks.create.mockResolvedValueOnce(okResponse);
+        await new OpenAIProvider().execute(request, { timeout: 1234 });
+
+        expect(mocks.clientOptions[0]).toMatchObject({ maxRetries: 0 });
+        expect(mocks.create.mock.calls[0][1]).toMatchObject({ timeout: 1234 });
+    });
+
+    it('retries a 429 honoring Retry-After and then succeeds', async () => {
+        mocks.create
+            .mockRejectedValueOnce(apiError(429, { 'retry-after': '3' }))
+            .mockResolvedValueOnce(okResponse);
+
+        const pending = new OpenAIProvider().execute(request, { retries: 3 });
+        await vi.advanceTimersByTimeAsync(2999);
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+
+        await expect(pending).resolves.toMatchObject({ content: 'ok' });
+        expect(mocks.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        mocks.create.mockRejectedValue(apiError(503, { 'retry-after-ms': '10' }));
+
+        const pending = new OpenAIProvider().execute(request, { retries: 2 });
+        const assertion = expect(pending).rejects.toThrow();
+        await vi.runAllTimersAsync();
+        await assertion;
+        expect(mocks.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry fatal errors', async () => {
+        mocks.create.mockRejectedValue(apiError(401));
+
+        await expect(new OpenAIProvider().execute(request, { retries: 3 })).rejects.toThrow();
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a stream that fails before yielding anything', async () => {
+        async function* stream() {
+            yield { choices: [{ delta: { content: 'hello' } }] };
+        }
+        mocks.create
+            .mockRejectedValueOnce(apiError(500, { 'retry-after-ms': '5' }))
+            .mockResolvedValueOnce(stream());
+
+        const chunks: StreamChunk[] = [];
+        const consume = (async () => {
+            for await (const chunk of new OpenAIProvider().executeStream(request, { retries: 1 })) {
+                chunks.push(chunk);
+            }
+        })();
+        await vi.runAllTimersAsync();
+        await consume;
+
+        expect(mocks.create).toHaveBeenCalledTimes(2);
+        expect(chunks).toEqual([
+            { type: 'text', text: 'hello' },
+            { type: 'done', response: expect.objectContaining({ content: 'hello' }) },
+        ]);
+    });
+
+    it('does not retry a stream once a chunk has been yielded', async () => {
+        async function* stream() {
+            yield { choices: [{ delta: { content: 'partial' } }] };
+            throw apiError(500);
+        }
+        mocks.create.mockResolvedValue(stream());
+
+        const chunks: StreamChunk[] = [];
+        await expect((async () => {
+            for await (const chunk of new OpenAIProvider().executeStream(request, { retries: 3 })) {
+                chunks.push(chunk);
+            }
+        })()).rejects.toThrow();
+
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+        expect(chunks).toEqual([{ type: 'text', text: 'partial' }]);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * runTools / runToolsStream: dispatching tool calls to handlers and looping
+ * until the model answers.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    OpenAIProvider,
+    ToolIterationLimitError,
+    type Message,
+    type RunToolsStreamEvent,
+    type ToolDefinition,
+} from '../src/index.js';
+
+const weatherTool: ToolDefinition = {
+    name: 'get_weather',
+    description: 'Get the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+};
+
+function toolCall(id: string, args: string, name = 'get_weather') {
+    return { id, type: 'function', function: { name, arguments: args } };
+}
+
+function reply(content: string | null, toolCalls?: unknown[]) {
+    return {
+        model: 'gpt-4o',
+        choices: [{
+            message: { content, refusal: null, role: 'assistant', tool_calls: toolCalls },
+            finish_reason: toolCalls ? 'tool_calls' : 'stop',
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+    };
+}
+
+function request(added: Message[] = []) {
+    return {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather in Oslo and Bergen?' }],
+        tools: [weatherTool],
+        addMessage: (message: Message) => added.push(message),
+    } as any;
+}
+
+describe('runTools', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('runs parallel calls concurrently and loops until the model answers', async () => {
+        mocks.create
+            .mockResolvedValueOnce(reply(null, [toolCall('call_1', '{"city":"Oslo"}'), toolCall('call_2', '{"city":"Bergen"}')]))
+            .mockResolvedValueOnce(reply('Oslo 3°C, Bergen 7°C'));
+        let running = 0;
+        let maxRunning = 0;
+        const handler = vi.fn(async ({ city }: { city: string }) => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return { city, temp: city === 'Oslo' ? 3 : 7 };
+        });
+        const added: Message[] = [];
+
+        const result = await new OpenAIProvider().runTools(request(added), { handlers: { get_weather: handler } });
+
+        expect(maxRunning).toBe(2);
+        expect(result.response.content).toBe('Oslo 3°C, Bergen 7°C');
+        expect(result.steps).toHaveLength(1);
+        expect(result.steps[0].toolResults.map((r) => r.result)).toEqual([
+            { city: 'Oslo', temp: 3 },
+            { city: 'Bergen', temp: 7 },
+        ]);
+        expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+        expect(added.map((m) => m.role)).toEqual(['assistant', 'tool', 'tool']);
+        expect(result.messages).toHaveLength(4);
+
+        const sent = mocks.create.mock.calls[1][0].messages;
+        expect(sent[1].tool_calls).toHaveLength(2);
+        expect(sent[2]).toEqual({ role: 'tool', content: '{"city":"Oslo","temp":3}', tool_call_id: 'call_1' });
+    });
+
+    it('sends failures back to the model as tool results', async () => {
+        mocks.create
+            .mockResolvedValueOnce(reply(null, [
+                toolCall('call_1', '{"city":'),
+                toolCall('call_2', '{"town":"Oslo"}'),
+                toolCall('call_3', '{"city":"Oslo"}'),
+                toolCall('call_4', '{}', 'get_time'),
+            ]))
+            .mockResolvedValueOnce(reply('Sorry.'));
+
+        const result = await new OpenAIProvider().runTools(request(), {
+            handlers: {
+                get_weather: () => {
+                    throw new Error('weather service down');
+                },
+            },
+        });
+
+        const [badJson, badArgs, thrown, unknown] = result.steps[0].toolResults;
+        expect(badJson.error).toContain('not valid JSON');
+        expect(badArgs.error).toContain("must have required property 'city'");
+        expect(thrown.content).toBe('Error: weather service down');
+        expect(unknown.error).toBe('Unknown tool "get_time"');
+        expect(mocks.create.mock.calls[1][0].messages.slice(2).map((m: any) => m.tool_call_id))
+            .toEqual(['call_1', 'call_2', 'call_3', 'call_4']);
+    });
+
+    it('accepts null for optional arguments of strict tools', async () => {
+        const strictTool: ToolDefinition = {
+            ...weatherTool,
+            strict: true,
+            parameters: {
+                type: 'object',
+                properties: { city: { type: 'string' }, unit: { type: 'string' } },
+                required: ['city'],
+            },
+        };
+        mocks.create
+            .mockResolvedValueOnce(reply(null, [toolCall('call_1', '{"city":"Oslo","unit":null}')]))
+            .mockResolvedValueOnce(reply('Oslo 3°C'));
+        const handler = vi.fn(() => ({ temp: 3 }));
+
+        const result = await new OpenAIProvider().runTools(
+            { ...request(), tools: [strictTool] },
+            { handlers: { get_weather: handler } }
+        );
+
+        expect(result.steps[0].toolResults[0].error).toBeUndefined();
+        expect(handler).toHaveBeenCalledWith({ city: 'Oslo', unit: null }, expect.anything());
+    });
+
+    it('reuses strict tool schemas with an $id across runs', async () => {
+        const strictTool: ToolDefinition = {
+            ...weatherTool,
+            strict: true,
+            parameters: { ...weatherTool.parameters, $id: 'https://example.com/weather.json' },
+        };
+        const handler = vi.fn(() => ({ temp: 3 }));
+
+        for (let i = 0; i < 2; i++) {
+            mocks.create
+                .mockResolvedValueOnce(reply(null, [toolCall('call_1', '{"city":"Oslo"}')]))
+                .mockResolvedValueOnce(reply('Oslo 3°C'));
+            const result = await new OpenAIProvider().runTools(
+                { ...request(), tools: [strictTool] },
+                { handlers: { get_weather: handler } }
+            );
+            expect(result.steps[0].toolResults[0].error).toBeUndefined();
+        }
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns schemas that fail to compile as tool errors', async () => {
+        const brokenTool: ToolDefinition = {
+            ...weatherTool,
+            parameters: { type: 'object', properties: { city: { type: 'not-a-type' } } },
+        };
+        mocks.create
+            .mockResolvedValueOnce(reply(null, [toolCall('call_1', '{"city":"Oslo"}')]))
+            .mockResolvedValueOnce(reply('Sorry.'));
+
+        const result = await new OpenAIProvider().runTools(
+            { ...request(), tools: [brokenTool] },
+            { handlers: { get_weather: () => 'sunny' } }
+        );
+
+        expect(result.steps[0].toolResults[0].error).toBeDefined();
+        expect(result.response.content).toBe('Sorry.');
+    });
+
+    it('throws ToolIterationLimitError when the model keeps calling tools', async () => {
+        mocks.create.mockResolvedValue(reply(null, [toolCall('call_1', '{"city":"Oslo"}')]));
+
+        const error = await new OpenAIProvider()
+            .runTools(request(), { handlers: { get_weather: () => 'sunny' }, maxIterations: 2 })
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ToolIterationLimitError);
+        expect(error.steps).toHaveLength(2);
+        expect(mocks.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('streams chunks and tool results across round-trips', async () => {
+        async function* toolTurn() {
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather' } }] } }] };
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":"Oslo"}' } }] } }] };
+            yield { choices: [{ delta: {}, finish_reason: 'tool_calls' }] };
+        }
+        async function* answerTurn() {
+            yield { choices: [{ delta: { content: 'Sunny.' }, finish_reason: 'stop' }] };
+        }
+        mocks.create.mockResolvedValueOnce(toolTurn()).mockResolvedValueOnce(answerTurn());
+
+        const stream = new OpenAIProvider().runToolsStream(request(), { handlers: { get_weather: () => 'sunny' } });
+        const events: RunToolsStreamEvent[] = [];
+        let next = await stream.next();
+        while (!next.done) {
+            events.push(next.value);
+            next = await stream.next();
+        }
+
+        expect(events.map((e) => e.type)).toEqual([
+            'tool_call_start',
+            'tool_call_delta',
+            'tool_call_end',
+            'done',
+            'tool_result',
+            'text',
+            'done',
+        ]);
+        expect(next.value.response.content).toBe('Sunny.');
+        expect(next.value.steps[0].response.toolCalls).toEqual([toolCall('call_1', '{"city":"Oslo"}')]);
+        expect(mocks.create.mock.calls[1][0].messages[2]).toEqual({ role: 'tool', content: 'sunny', tool_call_id: 'call_1' });
+    });
+});
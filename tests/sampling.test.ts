@@ -0,0 +1,192 @@
+/**
+ * Sampling options: validation, per-model dropping, multiple choices and
+ * logprobs on responses and stream chunks.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    chatCreate: vi.fn(),
+    responsesCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.chatCreate,
+            },
+        };
+        responses = {
+            create: mocks.responsesCreate,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, UnsupportedFeatureError, type StreamChunk } from '../src/index.js';
+
+function request(model = 'gpt-4o') {
+    return {
+        model,
+        messages: [{ role: 'user', content: 'Name a colour.' }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+function logprob(token: string, value: number) {
+    return { token, logprob: value, bytes: [...Buffer.from(token)], top_logprobs: [{ token, logprob: value, bytes: null }] };
+}
+
+function completion(choices: Array<{ content: string; logprobs?: unknown[] }>) {
+    return {
+        id: 'chatcmpl-1',
+        model: 'gpt-4o',
+        choices: choices.map((choice, index) => ({
+            index,
+            message: { role: 'assistant', content: choice.content, refusal: null },
+            finish_reason: 'stop',
+            logprobs: choice.logprobs ? { content: choice.logprobs, refusal: null } : null,
+        })),
+        usage: { prompt_tokens: 5, completion_tokens: 2 * choices.length, total_tokens: 5 + 2 * choices.length },
+    };
+}
+
+describe('sampling options', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.chatCreate.mockResolvedValue(completion([{ content: 'Teal' }]));
+    });
+
+    it('maps every option onto Chat Completions params', async () => {
+        await new OpenAIProvider().execute(request(), {
+            topP: 0.9,
+            stop: ['\n'],
+            seed: 7,
+            presencePenalty: 0.5,
+            frequencyPenalty: -0.5,
+            logitBias: { '50256': -100 },
+            topLogprobs: 3,
+            user: 'user-42',
+            metadata: { feature: 'colours' },
+            store: true,
+        });
+
+        expect(mocks.chatCreate.mock.calls[0][0]).toMatchObject({
+            top_p: 0.9,
+            stop: ['\n'],
+            seed: 7,
+            presence_penalty: 0.5,
+            frequency_penalty: -0.5,
+            logit_bias: { '50256': -100 },
+            logprobs: true,
+            top_logprobs: 3,
+            user: 'user-42',
+            metadata: { feature: 'colours' },
+            store: true,
+        });
+    });
+
+    it('drops sampling parameters reasoning models reject, like temperature', async () => {
+        await new OpenAIProvider().execute(request('o3'), {
+            temperature: 0.2,
+            topP: 0.9,
+            stop: 'END',
+            logprobs: true,
+            seed: 7,
+            user: 'user-42',
+        });
+
+        const params = mocks.chatCreate.mock.calls[0][0];
+        expect(params).toMatchObject({ seed: 7, user: 'user-42' });
+        for (const key of ['temperature', 'top_p', 'stop', 'logprobs']) {
+            expect(params).not.toHaveProperty(key);
+        }
+    });
+
+    it('rejects out-of-range values before sending', async () => {
+        const provider = new OpenAIProvider();
+
+        await expect(provider.execute(request(), { topP: 1.5 })).rejects.toThrow(RangeError);
+        await expect(provider.execute(request(), { n: 0 })).rejects.toThrow('n must be an integer between 1 and 128');
+        await expect(provider.execute(request(), { stop: ['a', 'b', 'c', 'd', 'e'] })).rejects.toThrow(RangeError);
+        await expect(provider.execute(request(), { logitBias: { '1': 200 } })).rejects.toThrow(RangeError);
+        expect(mocks.chatCreate).not.toHaveBeenCalled();
+    });
+
+    it('returns every choice and their logprobs when n > 1', async () => {
+        mocks.chatCreate.mockResolvedValueOnce(completion([
+            { content: 'Teal', logprobs: [logprob('Teal', -0.1)] },
+            { content: 'Red', logprobs: [logprob('Red', -1.2)] },
+        ]));
+
+        const response = await new OpenAIProvider().execute(request(), { n: 2, logprobs: true });
+
+        expect(mocks.chatCreate.mock.calls[0][0]).toMatchObject({ n: 2, logprobs: true });
+        expect(response.content).toBe('Teal');
+        expect(response.logprobs).toEqual([{
+            token: 'Teal',
+            logprob: -0.1,
+            bytes: [84, 101, 97, 108],
+            topLogprobs: [{ token: 'Teal', logprob: -0.1 }],
+        }]);
+        expect(response.choices?.map((choice) => [choice.index, choice.content, choice.finishReason])).toEqual([
+            [0, 'Teal', 'stop'],
+            [1, 'Red', 'stop'],
+        ]);
+        expect(response.choices?.[1].logprobs?.[0].logprob).toBe(-1.2);
+    });
+
+    it('attaches logprobs to text chunks and the aggregated response', async () => {
+        mocks.chatCreate.mockResolvedValueOnce((async function* () {
+            for (const token of ['Te', 'al']) {
+                yield {
+                    model: 'gpt-4o',
+                    choices: [{ index: 0, delta: { content: token }, logprobs: { content: [logprob(token, -0.5)] } }],
+                };
+            }
+            yield { model: 'gpt-4o', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] };
+        })());
+
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of new OpenAIProvider().executeStream(request(), { logprobs: true })) {
+            chunks.push(chunk);
+        }
+
+        const text = chunks.filter((chunk) => chunk.type === 'text');
+        expect(text.map((chunk) => chunk.logprobs?.[0].token)).toEqual(['Te', 'al']);
+        expect(chunks.at(-1)?.response?.logprobs?.map((entry) => entry.token)).toEqual(['Te', 'al']);
+    });
+
+    it('does not stream several choices', async () => {
+        const stream = new OpenAIProvider().executeStream(request(), { n: 2 });
+
+        await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow(RangeError);
+    });
+
+    it('maps logprobs on the Responses API and rejects options it lacks', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({
+            id: 'resp_1',
+            model: 'gpt-4o',
+            status: 'completed',
+            output: [{
+                type: 'message',
+                role: 'assistant',
+                content: [{ type: 'output_text', text: 'Teal', annotations: [], logprobs: [logprob('Teal', -0.1)] }],
+            }],
+        });
+        const provider = new OpenAIProvider({ api: 'responses' });
+
+        const response = await provider.execute(request(), { topP: 0.5, topLogprobs: 2 });
+
+        expect(mocks.responsesCreate.mock.calls[0][0]).toMatchObject({
+            top_p: 0.5,
+            top_logprobs: 2,
+            include: ['message.output_text.logprobs'],
+        });
+        expect(response.logprobs?.[0]).toMatchObject({ token: 'Teal', logprob: -0.1 });
+        await expect(provider.execute(request(), { seed: 1 })).rejects.toBeInstanceOf(UnsupportedFeatureError);
+    });
+});
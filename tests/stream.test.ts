@@ -0,0 +1,173 @@
+/**
+ * Reassembled tool calls, truncation and the aggregated response on the
+ * final `done` chunk.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    chatCreate: vi.fn(),
+    responsesCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.chatCreate,
+            },
+        };
+        responses = {
+            create: mocks.responsesCreate,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, type StreamChunk } from '../src/index.js';
+
+const request = {
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'Weather in Oslo and Bergen?' }],
+    addMessage: () => undefined,
+} as any;
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+function toolDelta(index: number, fn: Record<string, string>, id?: string) {
+    return { choices: [{ delta: { tool_calls: [{ index, ...(id ? { id } : {}), function: fn }] } }] };
+}
+
+describe('stream assembly', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('ends tool calls with complete, parsed arguments', async () => {
+        async function* chunks() {
+            yield toolDelta(0, { name: 'get_weather', arguments: '' }, 'call_1');
+            yield toolDelta(0, { arguments: '{"city":' });
+            yield toolDelta(0, { arguments: '"Oslo"}' });
+            yield toolDelta(1, { name: 'get_weather', arguments: '{"city":"Bergen"}' }, 'call_2');
+            yield { choices: [{ delta: {}, finish_reason: 'tool_calls' }] };
+        }
+        mocks.chatCreate.mockResolvedValueOnce(chunks());
+
+        const ends = (await collect(new OpenAIProvider().executeStream(request)))
+            .filter((c) => c.type === 'tool_call_end');
+
+        expect(ends.map((c) => c.toolCall)).toEqual([
+            { id: 'call_1', index: 0, name: 'get_weather', arguments: '{"city":"Oslo"}', parsedArguments: { city: 'Oslo' } },
+            {
+                id: 'call_2',
+                index: 1,
+                name: 'get_weather',
+                arguments: '{"city":"Bergen"}',
+                parsedArguments: { city: 'Bergen' },
+            },
+        ]);
+    });
+
+    it('flags calls cut off by the output cap', async () => {
+        async function* chunks() {
+            yield toolDelta(0, { name: 'get_weather', arguments: '{"city":"Os' }, 'call_1');
+            yield { choices: [{ delta: {}, finish_reason: 'length' }] };
+        }
+        mocks.chatCreate.mockResolvedValueOnce(chunks());
+
+        const chunksOut = await collect(new OpenAIProvider().executeStream(request));
+        const end = chunksOut.find((c) => c.type === 'tool_call_end');
+
+        expect(end?.toolCall).toMatchObject({ arguments: '{"city":"Os', truncated: true });
+        expect(end?.toolCall?.parseError).toBeDefined();
+        expect(end?.toolCall?.parsedArguments).toBeUndefined();
+        expect(chunksOut.at(-1)?.finishReason).toBe('length');
+    });
+
+    it('puts the aggregated response on the done chunk', async () => {
+        async function* chunks() {
+            yield { choices: [{ delta: { content: 'Checking ' } }] };
+            yield { choices: [{ delta: { content: 'now.' } }] };
+            yield toolDelta(0, { name: 'get_weather', arguments: '{"city":"Oslo"}' }, 'call_1');
+            yield { choices: [{ delta: {}, finish_reason: 'tool_calls' }] };
+            yield { choices: [], usage: { prompt_tokens: 20, completion_tokens: 10 } };
+        }
+        mocks.chatCreate.mockResolvedValueOnce(chunks());
+
+        const done = (await collect(new OpenAIProvider().executeStream(request))).at(-1);
+
+        expect(done?.type).toBe('done');
+        expect(done?.response).toEqual({
+            content: 'Checking now.',
+            model: 'gpt-4o',
+            finishReason: 'tool_calls',
+            usage: { inputTokens: 20, outputTokens: 10 },
+            cost: expect.any(Number),
+            toolCalls: [{
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            }],
+        });
+    });
+
+    it('carries the response ID and system fingerprint like execute', async () => {
+        async function* chunks() {
+            const meta = { id: 'chatcmpl-7', system_fingerprint: 'fp_abc' };
+            yield { ...meta, choices: [{ delta: { content: 'Hi' } }] };
+            yield { ...meta, choices: [{ delta: {}, finish_reason: 'stop' }] };
+        }
+        mocks.chatCreate.mockResolvedValueOnce(chunks());
+
+        const done = (await collect(new OpenAIProvider().executeStream(request))).at(-1);
+
+        expect(done).toMatchObject({ id: 'chatcmpl-7', systemFingerprint: 'fp_abc' });
+        expect(done?.response).toMatchObject({ id: 'chatcmpl-7', systemFingerprint: 'fp_abc' });
+    });
+
+    it('reports the Responses ID so a streamed turn can be continued', async () => {
+        async function* events() {
+            yield { type: 'response.created', response: { id: 'resp_42', status: 'in_progress', output: [] } };
+            yield { type: 'response.output_text.delta', output_index: 0, delta: 'Hi' };
+            yield { type: 'response.completed', response: { id: 'resp_42', status: 'completed', output: [] } };
+        }
+        mocks.responsesCreate.mockResolvedValueOnce(events());
+
+        const done = (await collect(new OpenAIProvider({ api: 'responses' }).executeStream(request))).at(-1);
+
+        expect(done?.response?.id).toBe('resp_42');
+    });
+
+    it('flags Responses calls left open by an incomplete response', async () => {
+        async function* events() {
+            yield {
+                type: 'response.output_item.added',
+                output_index: 0,
+                item: { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '' },
+            };
+            yield { type: 'response.function_call_arguments.delta', output_index: 0, delta: '{"ci' };
+            yield {
+                type: 'response.incomplete',
+                response: { status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' }, output: [] },
+            };
+        }
+        mocks.responsesCreate.mockResolvedValueOnce(events());
+
+        const chunks = await collect(new OpenAIProvider({ api: 'responses' }).executeStream(request));
+
+        expect(chunks.find((c) => c.type === 'tool_call_end')?.toolCall).toMatchObject({
+            id: 'call_1',
+            arguments: '{"ci',
+            truncated: true,
+        });
+        expect(chunks.at(-1)).toMatchObject({ type: 'done', finishReason: 'length' });
+    });
+});
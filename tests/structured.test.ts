@@ -0,0 +1,207 @@
+/**
+ * Structured output: strict json_schema generation, parsing, validation and
+ * repair round-trips.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    OpenAIProvider,
+    StructuredOutputValidationError,
+    toStrictJsonSchema,
+} from '../src/index.js';
+import { validateJsonSchema } from '../src/structured.js';
+
+const personSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' } } } },
+    },
+    required: ['name', 'age'],
+};
+
+function reply(content: string | null, refusal: string | null = null) {
+    return {
+        choices: [{ message: { content, refusal, role: 'assistant' } }],
+        model: 'gpt-5.4',
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+    };
+}
+
+function request(extra: Record<string, unknown>) {
+    return {
+        model: 'gpt-5.4',
+        messages: [{ role: 'user', content: 'Extract: Ada, 36' }],
+        addMessage: () => undefined,
+        ...extra,
+    } as any;
+}
+
+describe('toStrictJsonSchema', () => {
+    it('closes objects, requires every property and makes optional ones nullable', () => {
+        expect(toStrictJsonSchema(personSchema)).toEqual({
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                age: { type: 'integer', minimum: 0 },
+                tags: {
+                    type: ['array', 'null'],
+                    items: {
+                        type: 'object',
+                        properties: { label: { type: ['string', 'null'] } },
+                        required: ['label'],
+                        additionalProperties: false,
+                    },
+                },
+            },
+            required: ['name', 'age', 'tags'],
+            additionalProperties: false,
+        });
+    });
+
+    it('adds null to enum and const of optional properties', () => {
+        const strict = toStrictJsonSchema({
+            type: 'object',
+            properties: {
+                unit: { type: 'string', enum: ['c', 'f'] },
+                kind: { type: 'string', const: 'reading' },
+            },
+        });
+
+        expect(strict.properties).toEqual({
+            unit: { type: ['string', 'null'], enum: ['c', 'f', null] },
+            kind: { type: ['string', 'null'], enum: ['reading', null] },
+        });
+        expect(validateJsonSchema(strict, { unit: null, kind: null }).valid).toBe(true);
+        expect(validateJsonSchema(strict, { unit: 'k', kind: null }).valid).toBe(false);
+    });
+
+    it('rewrites $defs and anyOf branches', () => {
+        const strict = toStrictJsonSchema({
+            $defs: { point: { type: 'object', properties: { x: { type: 'number' } } } },
+            anyOf: [{ $ref: '#/$defs/point' }, { type: 'object', properties: {} }],
+        });
+        expect((strict.$defs as any).point.additionalProperties).toBe(false);
+        expect((strict.anyOf as any)[1].additionalProperties).toBe(false);
+    });
+});
+
+describe('structured output', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('sends a strict json_schema format and returns the parsed object', async () => {
+        mocks.create.mockResolvedValueOnce(reply('{"name":"Ada","age":36,"tags":null}'));
+
+        const response = await new OpenAIProvider().execute(
+            request({ responseFormat: { schema: personSchema, name: 'person' } })
+        );
+
+        const arg = mocks.create.mock.calls[0][0] as any;
+        expect(arg.response_format).toEqual({
+            type: 'json_schema',
+            json_schema: { name: 'person', schema: toStrictJsonSchema(personSchema), strict: true },
+        });
+        expect(response.parsed).toEqual({ name: 'Ada', age: 36, tags: null });
+    });
+
+    it('passes raw response formats through unchanged', async () => {
+        mocks.create.mockResolvedValueOnce(reply('{"ok":true}'));
+
+        const response = await new OpenAIProvider().execute(
+            request({ responseFormat: { type: 'json_object' } })
+        );
+
+        expect((mocks.create.mock.calls[0][0] as any).response_format).toEqual({ type: 'json_object' });
+        expect(response.parsed).toEqual({ ok: true });
+    });
+
+    it('leaves plain text responses unparsed', async () => {
+        mocks.create.mockResolvedValueOnce(reply('hello'));
+        const response = await new OpenAIProvider().execute(request({}));
+        expect(response.parsed).toBeUndefined();
+    });
+
+    it('uses a validator and its schema', async () => {
+        mocks.create.mockResolvedValueOnce(reply('{"name":"Ada","age":36,"tags":null}'));
+        const validator = {
+            schema: personSchema,
+            safeParse: (value: any) => ({ success: true, data: { ...value, checked: true } }),
+        };
+
+        const response = await new OpenAIProvider().execute(request({ validator }));
+
+        expect((mocks.create.mock.calls[0][0] as any).response_format.json_schema.name).toBe('response');
+        expect(response.parsed).toEqual({ name: 'Ada', age: 36, tags: null, checked: true });
+    });
+
+    it('sends validation errors back to the model and sums usage', async () => {
+        mocks.create
+            .mockResolvedValueOnce(reply('{"name":"Ada","age":-1,"tags":null}'))
+            .mockResolvedValueOnce(reply('{"name":"Ada","age":36,"tags":null}'));
+
+        const response = await new OpenAIProvider().execute(request({ responseFormat: { schema: personSchema } }));
+
+        expect(mocks.create).toHaveBeenCalledTimes(2);
+        const repairMessages = (mocks.create.mock.calls[1][0] as any).messages;
+        expect(repairMessages).toHaveLength(3);
+        expect(repairMessages[1]).toEqual({ role: 'assistant', content: '{"name":"Ada","age":-1,"tags":null}' });
+        expect(repairMessages[2].content).toContain('/age must be >= 0');
+        expect(response.parsed).toEqual({ name: 'Ada', age: 36, tags: null });
+        expect(response.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+    });
+
+    it('throws StructuredOutputValidationError once repairs are exhausted', async () => {
+        mocks.create.mockResolvedValue(reply('not json'));
+
+        const error = await new OpenAIProvider({ structuredOutputRepairs: 2 })
+            .execute(request({ responseFormat: { schema: personSchema } }))
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(StructuredOutputValidationError);
+        expect(error.content).toBe('not json');
+        expect(error.errors[0]).toContain('not valid JSON');
+        expect(mocks.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('validates against the same $id schema on every call', async () => {
+        mocks.create.mockResolvedValue(reply('{"name":"Ada","age":36,"tags":null}'));
+        const schema = { ...personSchema, $id: 'https://example.com/person.json' };
+        const provider = new OpenAIProvider();
+
+        for (let i = 0; i < 2; i++) {
+            const response = await provider.execute(request({ responseFormat: { schema } }));
+            expect(response.parsed).toEqual({ name: 'Ada', age: 36, tags: null });
+        }
+    });
+
+    it('surfaces refusals separately without parsing or repairing', async () => {
+        mocks.create.mockResolvedValueOnce(reply(null, 'I cannot help with that.'));
+
+        const response = await new OpenAIProvider().execute(request({ responseFormat: { schema: personSchema } }));
+
+        expect(response.refusal).toBe('I cannot help with that.');
+        expect(response.parsed).toBeUndefined();
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * Lifecycle hooks and GenAI spans, recorded by an in-memory tracer against
+ * the mock server.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+    OpenAIProvider,
+    RateLimitError,
+    startMockOpenAIServer,
+    type ExecutionHooks,
+    type MockOpenAIServer,
+    type TelemetryAttributeValue,
+    type TelemetryTracer,
+} from '../src/index.js';
+
+interface RecordedSpan {
+    name: string;
+    kind?: number;
+    attributes: Record<string, TelemetryAttributeValue>;
+    status?: { code: number; message?: string };
+    exceptions: Error[];
+    ended: boolean;
+}
+
+function createInMemoryTracer(): TelemetryTracer & { spans: RecordedSpan[] } {
+    const spans: RecordedSpan[] = [];
+    return {
+        spans,
+        startSpan(name, options) {
+            const span: RecordedSpan = {
+                name,
+                kind: options?.kind,
+                attributes: { ...options?.attributes },
+                exceptions: [],
+                ended: false,
+            };
+            spans.push(span);
+            return {
+                setAttribute: (key, value) => {
+                    span.attributes[key] = value;
+                },
+                setStatus: (status) => {
+                    span.status = status;
+                },
+                recordException: (error) => {
+                    span.exceptions.push(error);
+                },
+                end: () => {
+                    span.ended = true;
+                },
+            };
+        },
+    };
+}
+
+const request = {
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: 'My key is sk-abcdefghijklmnopqrstuvwxyz123456, weather?' }],
+    addMessage: () => undefined,
+} as any;
+
+describe('observability', () => {
+    let server: MockOpenAIServer;
+    let tracer: ReturnType<typeof createInMemoryTracer>;
+    let events: Array<[string, any]>;
+    let provider: OpenAIProvider;
+
+    const hooks: ExecutionHooks = {
+        onRequest: (event) => events.push(['request', event]),
+        onResponse: (event) => events.push(['response', event]),
+        onError: (event) => events.push(['error', event]),
+        onStreamChunk: (event) => events.push(['chunk', event]),
+    };
+
+    beforeAll(async () => {
+        server = await startMockOpenAIServer();
+    });
+
+    afterEach(async () => {
+        await provider.close();
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    function createProvider(recordContent = false) {
+        tracer = createInMemoryTracer();
+        events = [];
+        provider = new OpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: server.baseURL,
+            hooks,
+            telemetry: { tracer, recordContent },
+        });
+        return provider;
+    }
+
+    it('reports attempts, request ids and a GenAI span for execute', async () => {
+        createProvider();
+        server.enqueue(
+            { type: 'error', status: 500 },
+            { type: 'text', text: 'Cold.', usage: { inputTokens: 12, outputTokens: 2 } }
+        );
+
+        await provider.execute(request, { temperature: 0, maxTokens: 50, retries: 1 });
+
+        expect(events.map(([name, event]) => [name, event.attempt])).toEqual([
+            ['request', 0],
+            ['request', 1],
+            ['response', undefined],
+        ]);
+        const response = events[2][1];
+        expect(response).toMatchObject({ operation: 'execute', api: 'chat', model: 'gpt-4o', attempts: 2 });
+        expect(response.requestId).toMatch(/^req_/);
+        expect(response.latencyMs).toBeGreaterThan(0);
+        expect(new Set(events.map(([, event]) => event.callId)).size).toBe(1);
+
+        expect(tracer.spans).toHaveLength(1);
+        expect(tracer.spans[0]).toMatchObject({
+            name: 'chat gpt-4o',
+            kind: 2,
+            ended: true,
+            attributes: {
+                'gen_ai.operation.name': 'chat',
+                'gen_ai.provider.name': 'openai',
+                'gen_ai.request.model': 'gpt-4o',
+                'gen_ai.request.temperature': 0,
+                'gen_ai.request.max_tokens': 50,
+                'gen_ai.response.model': 'gpt-4o',
+                'gen_ai.response.finish_reasons': ['stop'],
+                'gen_ai.usage.input_tokens': 12,
+                'gen_ai.usage.output_tokens': 2,
+                'server.address': '127.0.0.1',
+                'http.request.resend_count': 1,
+                'openai.request.id': response.requestId,
+            },
+        });
+        expect(tracer.spans[0].attributes).not.toHaveProperty('gen_ai.input.messages');
+    });
+
+    it('records time to first chunk and every chunk for streams', async () => {
+        createProvider();
+        server.enqueue({ type: 'text', text: 'Cold and windy.' });
+
+        for await (const chunk of provider.executeStream(request)) {
+            void chunk;
+        }
+
+        const chunks = events.filter(([name]) => name === 'chunk').map(([, event]) => event.chunk.type);
+        expect(chunks).toEqual(['text', 'text', 'usage', 'done']);
+        const response = events.at(-1)?.[1];
+        expect(response.timeToFirstChunkMs).toBeGreaterThan(0);
+        expect(response.response.content).toBe('Cold and windy.');
+        expect(tracer.spans[0].attributes['gen_ai.response.time_to_first_chunk']).toBeGreaterThan(0);
+        expect(tracer.spans[0].ended).toBe(true);
+    });
+
+    it('marks the span as failed with the typed error', async () => {
+        createProvider();
+        server.enqueue({ type: 'error', status: 429, message: 'Slow down' });
+
+        await expect(provider.execute(request, { retries: 0 })).rejects.toBeInstanceOf(RateLimitError);
+
+        expect(events.at(-1)?.[0]).toBe('error');
+        expect(events.at(-1)?.[1].error).toBeInstanceOf(RateLimitError);
+        expect(tracer.spans[0]).toMatchObject({
+            status: { code: 2, message: '429 Slow down' },
+            attributes: { 'error.type': 'RateLimitError' },
+            ended: true,
+        });
+    });
+
+    it('attaches redacted content only when enabled', async () => {
+        createProvider(true);
+        server.enqueue({ type: 'text', text: 'Cold.' });
+
+        await provider.execute(request);
+
+        const input = String(tracer.spans[0].attributes['gen_ai.input.messages']);
+        expect(input).toContain('weather?');
+        expect(input).not.toContain('sk-abcdefghijklmnopqrstuvwxyz123456');
+        expect(tracer.spans[0].attributes['gen_ai.output.messages']).toContain('Cold.');
+    });
+
+    it('ignores hooks that throw', async () => {
+        provider = new OpenAIProvider({
+            apiKey: 'sk-abcdefghijklmnopqrstuvwxyz123456',
+            baseURL: server.baseURL,
+            hooks: {
+                onRequest: () => {
+                    throw new Error('broken logger');
+                },
+            },
+        });
+        server.enqueue({ type: 'text', text: 'Cold.' });
+
+        await expect(provider.execute(request)).resolves.toMatchObject({ content: 'Cold.' });
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Token counting and the pre-flight context window check.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    create: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.create,
+            },
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import {
+    OpenAIProvider,
+    ContextLengthExceededError,
+    countTokens,
+    countMessageTokens,
+    getContextWindow,
+    getEncodingName,
+    trimMessagesToFit,
+    type Message,
+    type ToolDefinition,
+} from '../src/index.js';
+
+const weatherTool: ToolDefinition = {
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    parameters: {
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+    },
+};
+
+describe('encodings', () => {
+    it('maps current models to o200k_base and older ones to cl100k_base', () => {
+        expect(getEncodingName('gpt-5.4')).toBe('o200k_base');
+        expect(getEncodingName('gpt-4o-mini')).toBe('o200k_base');
+        expect(getEncodingName('o3-mini')).toBe('o200k_base');
+        expect(getEncodingName('ft:gpt-4o-mini:acme:custom:id')).toBe('o200k_base');
+        expect(getEncodingName('gpt-4-turbo')).toBe('cl100k_base');
+        expect(getEncodingName('gpt-3.5-turbo')).toBe('cl100k_base');
+        expect(getEncodingName('some-future-model')).toBe('o200k_base');
+    });
+
+    it('counts text tokens', () => {
+        expect(countTokens('', 'gpt-5.4')).toBe(0);
+        expect(countTokens('Hello world', 'gpt-4o')).toBe(2);
+    });
+
+    it('knows context windows for common models', () => {
+        expect(getContextWindow('gpt-4o')).toBe(128_000);
+        expect(getContextWindow('gpt-4')).toBe(8_192);
+        expect(getContextWindow('o3')).toBe(200_000);
+        expect(getContextWindow('ft:gpt-4o-mini:acme:custom:id')).toBe(128_000);
+        expect(getContextWindow('my-local-llama')).toBeUndefined();
+    });
+});
+
+describe('countMessageTokens', () => {
+    it('adds per-message overhead and reply priming', () => {
+        const messages: Message[] = [{ role: 'user', content: 'Hello world' }];
+        // 3 priming + 3 framing + 1 role + 2 content
+        expect(countMessageTokens(messages, 'gpt-4o')).toBe(9);
+    });
+
+    it('accounts for names and tool definitions', () => {
+        const messages: Message[] = [{ role: 'user', content: 'Hello world', name: 'alice' }];
+        const withName = countMessageTokens(messages, 'gpt-4o');
+        expect(withName).toBeGreaterThan(9);
+        expect(countMessageTokens(messages, 'gpt-4o', [weatherTool])).toBeGreaterThan(withName);
+    });
+});
+
+describe('trimMessagesToFit', () => {
+    const messages = [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'first question '.repeat(50) },
+        {
+            role: 'assistant',
+            content: null,
+            toolCalls: [{ id: 'c1', type: 'function', function: { name: 'f', arguments: '{}' } }],
+        },
+        { role: 'tool', content: 'tool output '.repeat(50), toolCallId: 'c1' },
+        { role: 'user', content: 'latest question' },
+    ] as Message[];
+
+    it('drops the oldest turns and their tool results', () => {
+        const budget = countMessageTokens([messages[0], messages[4]], 'gpt-4o') + 5;
+        const trimmed = trimMessagesToFit(messages, 'gpt-4o', budget);
+        expect(trimmed?.map((m) => m.role)).toEqual(['system', 'user']);
+        expect(trimmed?.[1].content).toBe('latest question');
+    });
+
+    it('returns undefined when even the pinned messages do not fit', () => {
+        expect(trimMessagesToFit(messages, 'gpt-4o', 5)).toBeUndefined();
+    });
+});
+
+describe('pre-flight context window check', () => {
+    const hugeRequest = {
+        model: 'gpt-4',
+        messages: [
+            { role: 'system', content: 'Be brief.' },
+            { role: 'user', content: 'lorem ipsum '.repeat(5000) },
+            { role: 'user', content: 'summarize' },
+        ],
+        addMessage: () => undefined,
+    } as any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.create.mockResolvedValue({
+            choices: [{ message: { content: 'ok', refusal: null, role: 'assistant' } }],
+            model: 'gpt-4',
+        });
+    });
+
+    it('throws ContextLengthExceededError without calling the API', async () => {
+        const error = await new OpenAIProvider().execute(hugeRequest, { maxTokens: 500 }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ContextLengthExceededError);
+        expect(error.contextWindow).toBe(8_192);
+        expect(error.maxTokens).toBe(500);
+        expect(error.promptTokens).toBeGreaterThan(8_192);
+        expect(mocks.create).not.toHaveBeenCalled();
+    });
+
+    it('counts maxTokens against the window', async () => {
+        const request = { ...hugeRequest, messages: [{ role: 'user', content: 'hi' }] };
+        await expect(new OpenAIProvider().execute(request, { maxTokens: 8_190 }))
+            .rejects.toBeInstanceOf(ContextLengthExceededError);
+        await expect(new OpenAIProvider().execute(request, { maxTokens: 100 }))
+            .resolves.toMatchObject({ content: 'ok' });
+    });
+
+    it('trims the oldest turns when configured', async () => {
+        const provider = new OpenAIProvider({ contextOverflow: 'trim' });
+        await provider.execute(hugeRequest, { maxTokens: 500 });
+
+        const arg = mocks.create.mock.calls[0][0] as { messages: Array<{ content: string }> };
+        expect(arg.messages.map((m) => m.content)).toEqual(['Be brief.', 'summarize']);
+    });
+
+    it('sends the request unchanged when ignored', async () => {
+        await new OpenAIProvider().execute(hugeRequest, { contextOverflow: 'ignore' });
+        expect(mocks.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies to streaming too', async () => {
+        const stream = new OpenAIProvider().executeStream(hugeRequest, { maxTokens: 500 });
+        await expect(stream[Symbol.asyncIterator]().next()).rejects.toBeInstanceOf(ContextLengthExceededError);
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tool calling round-trips: typed tool messages, tool_choice,
+ * parallel_tool_calls and strict function schemas.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    chatCreate: vi.fn(),
+    responsesCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.chatCreate,
+            },
+        };
+        responses = {
+            create: mocks.responsesCreate,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, type Message, type ToolDefinition } from '../src/index.js';
+
+const searchTool: ToolDefinition = {
+    name: 'search_orders',
+    description: 'Search orders',
+    parameters: {
+        type: 'object',
+        properties: {
+            filter: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: ['open', 'closed'] },
+                    customer: { $ref: '#/$defs/customer' },
+                },
+                required: ['status'],
+            },
+            lines: {
+                type: 'array',
+                items: { type: 'object', properties: { sku: { type: 'string' }, qty: { type: 'integer', minimum: 1 } } },
+            },
+            limit: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+        },
+        required: ['filter'],
+        $defs: {
+            customer: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+        },
+    },
+};
+
+const history: Message[] = [
+    { role: 'user', content: 'Find my open orders' },
+    {
+        role: 'assistant',
+        content: null,
+        toolCalls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'search_orders', arguments: '{"filter":{"status":"open"}}' },
+        }],
+    },
+    { role: 'tool', content: '[]', toolCallId: 'call_1' },
+];
+
+function request(extra: Record<string, unknown> = {}) {
+    return {
+        model: 'gpt-5.4',
+        messages: history,
+        tools: [searchTool],
+        addMessage: () => undefined,
+        ...extra,
+    } as any;
+}
+
+describe('tool calling', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+        mocks.chatCreate.mockResolvedValue({
+            choices: [{ message: { content: 'None found.', refusal: null, role: 'assistant' }, finish_reason: 'stop' }],
+            model: 'gpt-5.4',
+        });
+        mocks.responsesCreate.mockResolvedValue({ id: 'resp_1', model: 'gpt-5.4', output: [] });
+    });
+
+    it('maps typed tool calls and results onto Chat Completions messages', async () => {
+        await new OpenAIProvider().execute(request());
+
+        const { messages } = mocks.chatCreate.mock.calls[0][0];
+        expect(messages[1]).toEqual({ role: 'assistant', content: null, tool_calls: history[1].toolCalls });
+        expect(messages[2]).toEqual({ role: 'tool', content: '[]', tool_call_id: 'call_1' });
+    });
+
+    it('sends tool_choice and parallel_tool_calls with the tools', async () => {
+        await new OpenAIProvider().execute(request({ toolChoice: { name: 'search_orders' }, parallelToolCalls: false }));
+        await new OpenAIProvider().execute(request({ toolChoice: 'required' }));
+
+        expect(mocks.chatCreate.mock.calls[0][0]).toMatchObject({
+            tool_choice: { type: 'function', function: { name: 'search_orders' } },
+            parallel_tool_calls: false,
+        });
+        expect(mocks.chatCreate.mock.calls[1][0].tool_choice).toBe('required');
+        expect(mocks.chatCreate.mock.calls[1][0]).not.toHaveProperty('parallel_tool_calls');
+    });
+
+    it('omits tool options when there are no tools', async () => {
+        await new OpenAIProvider().execute(request({ tools: undefined, toolChoice: 'none', parallelToolCalls: true }));
+
+        const params = mocks.chatCreate.mock.calls[0][0];
+        expect(params).not.toHaveProperty('tool_choice');
+        expect(params).not.toHaveProperty('parallel_tool_calls');
+    });
+
+    it('rewrites strict tool schemas for strict mode', async () => {
+        await new OpenAIProvider().execute(request({ tools: [{ ...searchTool, strict: true }] }));
+
+        const { function: fn } = mocks.chatCreate.mock.calls[0][0].tools[0];
+        expect(fn.strict).toBe(true);
+        expect(fn.parameters.additionalProperties).toBe(false);
+        expect(fn.parameters.required).toEqual(['filter', 'lines', 'limit']);
+        expect(fn.parameters.properties.filter.properties.customer).toEqual({
+            anyOf: [{ $ref: '#/$defs/customer' }, { type: 'null' }],
+        });
+        expect(fn.parameters.$defs.customer.additionalProperties).toBe(false);
+    });
+
+    it('maps the same options onto the Responses API', async () => {
+        await new OpenAIProvider({ api: 'responses' }).execute(
+            request({ tools: [{ ...searchTool, strict: true }], toolChoice: { name: 'search_orders' }, parallelToolCalls: false })
+        );
+
+        const params = mocks.responsesCreate.mock.calls[0][0];
+        expect(params.tool_choice).toEqual({ type: 'function', name: 'search_orders' });
+        expect(params.parallel_tool_calls).toBe(false);
+        expect(params.tools[0].strict).toBe(true);
+        expect(params.input.slice(1)).toEqual([
+            {
+                type: 'function_call',
+                call_id: 'call_1',
+                name: 'search_orders',
+                arguments: '{"filter":{"status":"open"}}',
+            },
+            { type: 'function_call_output', call_id: 'call_1', output: '[]' },
+        ]);
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Finish reasons, refusals and detailed usage on responses and stream chunks.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    chatCreate: vi.fn(),
+    responsesCreate: vi.fn(),
+}));
+
+vi.mock('openai', () => {
+    class MockOpenAI {
+        chat = {
+            completions: {
+                create: mocks.chatCreate,
+            },
+        };
+        responses = {
+            create: mocks.responsesCreate,
+        };
+        constructor(_: unknown) {}
+    }
+    return { default: MockOpenAI };
+});
+
+import { OpenAIProvider, type StreamChunk } from '../src/index.js';
+
+function request() {
+    return {
+        model: 'gpt-5.4',
+        messages: [{ role: 'user', content: 'Hello' }],
+        addMessage: () => undefined,
+    } as any;
+}
+
+async function collect(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+describe('finish reason, refusal and usage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        process.env.OPENAI_API_KEY = 'sk-abcdefghijklmnopqrstuvwxyz123456';
+    });
+
+    it('maps Chat Completions metadata and the usage breakdown', async () => {
+        mocks.chatCreate.mockResolvedValueOnce({
+            id: 'chatcmpl-1',
+            model: 'gpt-5.4',
+            system_fingerprint: 'fp_abc',
+            choices: [{ message: { content: 'Hel', refusal: null, role: 'assistant' }, finish_reason: 'length' }],
+            usage: {
+                prompt_tokens: 1200,
+                completion_tokens: 300,
+                total_tokens: 1500,
+                prompt_tokens_details: { cached_tokens: 1024, audio_tokens: 0 },
+                completion_tokens_details: { reasoning_tokens: 256 },
+            },
+        });
+
+        const response = await new OpenAIProvider().execute(request());
+
+        expect(response).toEqual({
+            id: 'chatcmpl-1',
+            content: 'Hel',
+            finishReason: 'length',
+            model: 'gpt-5.4',
+            systemFingerprint: 'fp_abc',
+            usage: {
+                inputTokens: 1200,
+                outputTokens: 300,
+                totalTokens: 1500,
+                cachedInputTokens: 1024,
+                reasoningTokens: 256,
+                inputAudioTokens: 0,
+            },
+            cost: expect.any(Number),
+        });
+    });
+
+    it('keeps refusals out of content', async () => {
+        mocks.chatCreate.mockResolvedValueOnce({
+            model: 'gpt-5.4',
+            choices: [{
+                message: { content: null, refusal: 'I cannot help with that.', role: 'assistant' },
+                finish_reason: 'stop',
+            }],
+        });
+
+        const response = await new OpenAIProvider().execute(request());
+
+        expect(response.content).toBe('');
+        expect(response.refusal).toBe('I cannot help with that.');
+        expect(response.finishReason).toBe('stop');
+    });
+
+    it('emits refusal chunks and the finish reason on done', async () => {
+        async function* chunks() {
+            yield { choices: [{ delta: { refusal: 'I cannot' } }] };
+            yield { choices: [{ delta: { refusal: ' help.' }, finish_reason: 'content_filter' }] };
+            yield {
+                choices: [],
+                usage: {
+                    prompt_tokens: 8,
+                    completion_tokens: 3,
+                    total_tokens: 11,
+                    prompt_tokens_details: { cached_tokens: 0 },
+                },
+            };
+        }
+        mocks.chatCreate.mockResolvedValueOnce(chunks());
+
+        expect(await collect(new OpenAIProvider().executeStream(request()))).toEqual([
+            { type: 'refusal', refusal: 'I cannot' },
+            { type: 'refusal', refusal: ' help.' },
+            {
+                type: 'usage',
+                usage: { inputTokens: 8, outputTokens: 3, totalTokens: 11, cachedInputTokens: 0 },
+                cost: expect.any(Number),
+            },
+            { type: 'done', finishReason: 'content_filter', response: expect.any(Object) },
+        ]);
+    });
+
+    it('derives Responses finish reasons from status', async () => {
+        mocks.responsesCreate.mockResolvedValueOnce({
+            id: 'resp_1',
+            model: 'gpt-5.4',
+            status: 'incomplete',
+            incomplete_details: { reason: 'max_output_tokens' },
+            output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Hel' }] }],
+            usage: {
+                input_tokens: 20,
+                output_tokens: 50,
+                total_tokens: 70,
+                input_tokens_details: { cached_tokens: 0 },
+                output_tokens_details: { reasoning_tokens: 40 },
+            },
+        });
+
+        const response = await new OpenAIProvider({ api: 'responses' }).execute(request());
+
+        expect(response.finishReason).toBe('length');
+        expect(response.usage).toEqual({
+            inputTokens: 20,
+            outputTokens: 50,
+            totalTokens: 70,
+            cachedInputTokens: 0,
+            reasoningTokens: 40,
+        });
+    });
+
+    it('reports the Responses stream finish reason on done', async () => {
+        async function* events() {
+            yield { type: 'response.refusal.delta', output_index: 0, delta: 'No.' };
+            yield { type: 'response.completed', response: { status: 'completed', output: [] } };
+        }
+        mocks.responsesCreate.mockResolvedValueOnce(events());
+
+        expect(await collect(new OpenAIProvider({ api: 'responses' }).executeStream(request()))).toEqual([
+            { type: 'refusal', refusal: 'No.' },
+            { type: 'done', finishReason: 'stop', response: expect.any(Object) },
+        ]);
+    });
+});
@@ -12,12 +12,17 @@ export default defineConfig({
     rollupOptions: {
       external: [
         "openai",
+        "ajv",
         "tiktoken",
         "undici",
         "execution",
         "@utilarium/offrecord",
         "@utilarium/spotclean",
         "node:crypto",
+        "node:fs",
+        "node:fs/promises",
+        "node:http",
+        "node:path",
       ],
     },
     sourcemap: true,